@@ -3,7 +3,12 @@
 import { Command } from 'commander';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { FixMigrationCommand, SyncCommand } from './commands';
+import {
+  AuditMigrationsCommand,
+  CheckCommand,
+  FixMigrationCommand,
+  SyncCommand,
+} from './commands';
 
 const packageJson = JSON.parse(
   readFileSync(join(__dirname, '../package.json'), 'utf-8'),
@@ -29,10 +34,28 @@ program
   )
   .option(
     '-s, --schema [path]',
-    'Path to Prisma schema file',
+    'Path to Prisma schema file, or a directory of .prisma files',
     './prisma/schema.prisma',
   )
   .option('-v, --verbose', 'Show detailed output')
+  .option(
+    '--per-column',
+    'Emit one ALTER TABLE statement per moved column instead of one per table',
+  )
+  .option(
+    '--include-ignored',
+    'Also reorder @@ignore models and @ignore fields (skipped by default)',
+  )
+  .option('--json', 'Print a machine-readable JSON document instead of text')
+  .option(
+    '--offline',
+    'Replay the migration history instead of connecting to the database',
+  )
+  .option(
+    '-d, --migrations-dir [path]',
+    'Path to migrations directory (replayed with --offline, receives the new migration)',
+    './prisma/migrations',
+  )
   .action(async (options) => {
     const syncCommand = new SyncCommand();
     await syncCommand.execute(options);
@@ -41,17 +64,126 @@ program
 // fix-migration command
 program
   .command('fix-migration')
-  .description('Fix column order issues in the latest migration file')
+  .description(
+    'Fix column order issues in the latest migration file, or the migrations selected with --migration, --since or --pending',
+  )
+  .argument(
+    '[input]',
+    'A SQL file to fix instead of a migration, or - to read SQL from stdin and write the fixed SQL to stdout',
+  )
+  .option(
+    '-s, --schema [path]',
+    'Path to Prisma schema file, or a directory of .prisma files',
+    './prisma/schema.prisma',
+  )
   .option(
     '-m, --migrations-dir [path]',
     'Path to migrations directory',
     './prisma/migrations',
   )
   .option('-v, --verbose', 'Show detailed output')
-  .option('-a, --apply', 'Apply fixes directly to the migration file')
-  .action(async (options) => {
+  .option(
+    '-a, --apply',
+    'Apply fixes directly to the migration file, keeping a backup of the original',
+  )
+  .option('--migration <name>', 'Fix the migration with this name')
+  .option(
+    '--file <path>',
+    'Fix this SQL file instead of a migration (- for stdin to stdout)',
+  )
+  .option(
+    '--since <name>',
+    'Fix the migration with this name and all later ones',
+  )
+  .option(
+    '--pending',
+    'Fix every migration not yet applied to the database (_prisma_migrations)',
+  )
+  .option(
+    '--applied-list <file>',
+    'Read applied migration names from this file (one per line) instead of the database',
+  )
+  .option(
+    '--update-checksum',
+    'Allow fixing migrations already applied to the database and update their checksum in _prisma_migrations',
+  )
+  .option(
+    '--assume-unapplied',
+    'With --apply, treat all migrations as unapplied when _prisma_migrations cannot be read',
+  )
+  .option(
+    '--undo',
+    'Restore the selected migration files from the backups --apply saved',
+  )
+  .option(
+    '--server-version <version>',
+    'MySQL/MariaDB version the migrations run on, read from the database when not given',
+  )
+  .option(
+    '--include-ignored',
+    'Also position columns of @@ignore models and @ignore fields',
+  )
+  .option('--json', 'Print a machine-readable JSON document instead of text')
+  .action(async (input, options) => {
     const fixCommand = new FixMigrationCommand();
-    await fixCommand.execute(options);
+    await fixCommand.execute({ ...options, file: input ?? options.file });
+  });
+
+// check command
+program
+  .command('check')
+  .description(
+    'Check database column order and the latest migration without writing files (exits 1 when issues are found, 2 on errors)',
+  )
+  .option(
+    '-m, --model [models...]',
+    'Specify specific model names to check (defaults to all models)',
+  )
+  .option(
+    '-s, --schema [path]',
+    'Path to Prisma schema file, or a directory of .prisma files',
+    './prisma/schema.prisma',
+  )
+  .option(
+    '-d, --migrations-dir [path]',
+    'Path to migrations directory',
+    './prisma/migrations',
+  )
+  .option('-v, --verbose', 'Show detailed output')
+  .option(
+    '--include-ignored',
+    'Also check @@ignore models and @ignore fields (skipped by default)',
+  )
+  .action(async (options) => {
+    const checkCommand = new CheckCommand();
+    await checkCommand.execute(options);
+  });
+
+// audit-migrations command
+program
+  .command('audit-migrations')
+  .description(
+    'Replay every migration and report which one first put each table out of schema column order',
+  )
+  .option(
+    '-s, --schema [path]',
+    'Path to Prisma schema file, or a directory of .prisma files',
+    './prisma/schema.prisma',
+  )
+  .option(
+    '-d, --migrations-dir [path]',
+    'Path to migrations directory',
+    './prisma/migrations',
+  )
+  .option('-v, --verbose', 'Show detailed output')
+  .option(
+    '--include-ignored',
+    'Also check @@ignore models and @ignore fields (skipped by default)',
+  )
+  .option('--json', 'Print a machine-readable JSON document instead of text')
+  .action(async (options) => {
+    const auditCommand = new AuditMigrationsCommand();
+    await auditCommand.execute(options);
   });
 
 program.parse(process.argv);
@@ -0,0 +1,119 @@
+import { MigrationAuditor } from '../lib/migration-auditor';
+import {
+  JSON_OUTPUT_VERSION,
+  type AuditMigrationsJsonOutput,
+  type AuditMigrationsOptions,
+} from '../types';
+
+/**
+ * Audit migrations command implementation - finds the migrations that put
+ * tables out of the schema's column order
+ */
+export class AuditMigrationsCommand {
+  /**
+   * Execute the audit-migrations command
+   */
+  public async execute(options: AuditMigrationsOptions): Promise<void> {
+    const {
+      schema: schemaPath,
+      migrationsDir,
+      verbose = false,
+      includeIgnored = false,
+      json = false,
+    } = options;
+
+    // With --json only the output document is written to stdout
+    const log = json ? () => undefined : console.log;
+    const output: AuditMigrationsJsonOutput = {
+      version: JSON_OUTPUT_VERSION,
+      command: 'audit-migrations',
+      success: false,
+      result: null,
+      warnings: [],
+      errors: [],
+    };
+
+    if (verbose) {
+      log('🔍 Auditing migration history for column order drift...');
+      log(`Schema path: ${schemaPath || 'prisma/schema.prisma'}`);
+      log(`Migrations directory: ${migrationsDir || 'prisma/migrations'}`);
+    }
+
+    let unresolvedCount = 0;
+
+    try {
+      const auditor = new MigrationAuditor(migrationsDir, schemaPath, {
+        includeIgnored,
+      });
+      const result = await auditor.audit();
+      output.result = result;
+
+      if (verbose) {
+        log(
+          `📄 Replayed ${result.statementsChecked} statement(s) from ${result.migrationsChecked} migration(s)`,
+        );
+      }
+
+      if (result.drifts.length === 0) {
+        log('✅ No migration put a table out of schema column order');
+      } else {
+        log(
+          `\n🔧 ${result.drifts.length} table(s) drifted from the schema column order:\n`,
+        );
+      }
+
+      for (const drift of result.drifts) {
+        const table = drift.schema
+          ? `${drift.schema}.${drift.table}`
+          : drift.table;
+
+        log(
+          `${drift.resolved ? '✅' : '❌'} ${drift.model} (table ${table}) ${
+            drift.resolved ? '- fixed by a later migration' : ''
+          }`.trim(),
+        );
+        log(`   First out of order in: ${drift.migration}`);
+        log(`   Statement: ${drift.file}:${drift.line}`);
+
+        if (verbose) {
+          log(`   ${drift.statement.split('\n')[0]}`);
+          log(`   Order after it: ${drift.actualOrder.join(', ')}`);
+          log(`   Schema order:   ${drift.expectedOrder.join(', ')}`);
+        }
+        log();
+
+        if (!drift.resolved) {
+          unresolvedCount++;
+        }
+      }
+
+      if (unresolvedCount > 0) {
+        log(
+          '💡 Run `prisma-reorder sync` to put the columns back in schema order.',
+        );
+      }
+
+      this.printJson(json, { ...output, success: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Error during migration audit:');
+      console.error(message);
+      this.printJson(json, { ...output, errors: [message] });
+      process.exit(1);
+    }
+
+    // Drift that later migrations already fixed is reported, not failed on
+    if (unresolvedCount > 0) {
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Print the --json output document
+   */
+  private printJson(json: boolean, output: AuditMigrationsJsonOutput): void {
+    if (json) {
+      console.log(JSON.stringify(output, null, 2));
+    }
+  }
+}
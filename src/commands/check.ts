@@ -0,0 +1,106 @@
+import { ColumnReorderGenerator } from '../lib/column-reorder';
+import { MigrationFixer } from '../lib/migration-fixer';
+import { type CheckOptions } from '../types';
+
+/**
+ * Exit codes of the check command (0 when everything is in order): CI can
+ * tell column order issues apart from failures to run the check at all
+ */
+const EXIT_CODES = {
+  issues: 1,
+  error: 2,
+} as const;
+
+/**
+ * Check command implementation - reports column order issues in the database
+ * and the latest migration without writing any files
+ */
+export class CheckCommand {
+  /**
+   * Execute the check command
+   */
+  public async execute(options: CheckOptions): Promise<void> {
+    const {
+      model: targetModels,
+      schema: schemaPath,
+      migrationsDir,
+      verbose = false,
+      includeIgnored = false,
+    } = options;
+
+    if (verbose) {
+      console.log('🔍 Checking column order...');
+      console.log(`Schema path: ${schemaPath || 'prisma/schema.prisma'}`);
+      console.log(
+        `Migrations directory: ${migrationsDir || 'prisma/migrations'}`,
+      );
+    }
+
+    let issueCount = 0;
+
+    try {
+      // Same analysis as `sync`, without creating a migration
+      const generator = new ColumnReorderGenerator(schemaPath, {
+        includeIgnored,
+      });
+      const results = await generator.generateReorderSQL(targetModels);
+
+      if (results.length === 0) {
+        console.log('✅ Database columns are in schema order');
+      } else {
+        console.log(`❌ ${results.length} model(s) have columns out of order:`);
+        for (const result of results) {
+          console.log(
+            `   - ${result.model}: ${result.changes.length} column(s) to move`,
+          );
+          if (verbose) {
+            result.changes.forEach((change) => {
+              console.log(
+                `     Move "${change.column}" from position ${change.fromPosition} to ${change.toPosition}`,
+              );
+            });
+          }
+        }
+        issueCount += results.length;
+      }
+
+      // Same analysis as `fix-migration`, without applying the fixes
+      const fixer = new MigrationFixer(migrationsDir, schemaPath, {
+        includeIgnored,
+      });
+      const latestMigration = fixer.getLatestMigration();
+      const fixResult = latestMigration
+        ? await fixer.fixLatestMigration()
+        : null;
+
+      if (!latestMigration) {
+        if (verbose) {
+          console.log('ℹ️  No migration files found');
+        }
+      } else if (!fixResult) {
+        console.log('✅ Latest migration does not require column order fixes');
+      } else {
+        console.log(
+          `❌ Latest migration needs ${fixResult.changes.length} column order fix(es): ${fixResult.migrationFile}`,
+        );
+        if (verbose) {
+          fixResult.changes.forEach((change) => {
+            console.log(`   - ${change}`);
+          });
+        }
+        issueCount += 1;
+      }
+    } catch (error) {
+      console.error('❌ Error during column order check:');
+      console.error(error instanceof Error ? error.message : 'Unknown error');
+      process.exit(EXIT_CODES.error);
+    }
+
+    if (issueCount > 0) {
+      console.log(
+        '\n💡 Run `prisma-reorder sync` or `prisma-reorder fix-migration --apply` to fix the column order.',
+      );
+      process.exit(EXIT_CODES.issues);
+    }
+  }
+}
@@ -1,5 +1,14 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
 import { MigrationFixer } from '../lib/migration-fixer';
-import { type FixMigrationOptions } from '../types';
+import {
+  JSON_OUTPUT_VERSION,
+  type FixMigrationJsonOutput,
+  type FixMigrationOptions,
+  type MigrationFixResult,
+  type TableReference,
+  type TableSize,
+} from '../types';
 
 /**
  * Fix migration command implementation - fixes column order in migration files
@@ -9,67 +18,602 @@ export class FixMigrationCommand {
    * Execute the fix-migration command
    */
   public async execute(options: FixMigrationOptions): Promise<void> {
-    const { migrationsDir, verbose = false, apply = false } = options;
+    const {
+      schema: schemaPath,
+      migrationsDir,
+      verbose = false,
+      apply = false,
+      includeIgnored = false,
+      json = false,
+      migration,
+      since,
+      pending = false,
+      appliedList,
+      updateChecksum = false,
+      assumeUnapplied = false,
+      file,
+      undo = false,
+      serverVersion,
+    } = options;
+    // `-` reads SQL from stdin and writes the fixed SQL to stdout
+    const isFilter = file === '-';
 
-    if (verbose) {
-      console.log('🔍 Checking latest migration for column order issues...');
-      console.log(
-        `Migrations directory: ${migrationsDir || 'prisma/migrations'}`,
+    // With --json only the output document is written to stdout, and as a
+    // filter only the SQL
+    const log = json ? () => undefined : isFilter ? console.error : console.log;
+    const output: FixMigrationJsonOutput = {
+      version: JSON_OUTPUT_VERSION,
+      command: 'fix-migration',
+      success: false,
+      migrationFile: null,
+      result: null,
+      migrationFiles: [],
+      results: [],
+      applied: false,
+      restoredFiles: [],
+      warnings: [],
+      errors: [],
+    };
+    const isLatest = !migration && !since && !pending && !file;
+
+    if (verbose && !undo) {
+      log(
+        `🔍 Checking ${
+          isLatest ? 'latest migration' : 'migrations'
+        } for column order issues...`,
       );
+      log(`Schema path: ${schemaPath || 'prisma/schema.prisma'}`);
+      log(`Migrations directory: ${migrationsDir || 'prisma/migrations'}`);
     }
 
+    const fixer: MigrationFixer = new MigrationFixer(
+      migrationsDir,
+      schemaPath,
+      {
+        includeIgnored,
+        serverVersion,
+        // Only read when a fix positions a column of an existing table
+        detectServerVersion: () =>
+          this.detectServerVersion(fixer, verbose, log),
+      },
+    );
+
     try {
-      const fixer = new MigrationFixer(migrationsDir);
-      const latestMigration = fixer.getLatestMigration();
+      if ([migration, since, pending, file].filter(Boolean).length > 1) {
+        throw new Error(
+          'Use only one of --migration, --since, --pending and --file',
+        );
+      }
+      if (isFilter && (apply || undo)) {
+        throw new Error(
+          `--${
+            apply ? 'apply' : 'undo'
+          } cannot be used when reading from stdin`,
+        );
+      }
+      if (apply && undo) {
+        throw new Error('Use either --apply or --undo');
+      }
 
-      if (!latestMigration) {
-        console.log('ℹ️  No migration files found');
+      if (isFilter) {
+        await this.fixStdin(fixer, output, { verbose, json });
         return;
       }
 
+      // Names of the migrations in _prisma_migrations, null until read
+      let appliedMigrations: string[] | null = pending
+        ? await this.readAppliedMigrations(fixer, appliedList)
+        : null;
+      const migrationFiles = await this.selectMigrations(
+        fixer,
+        options,
+        appliedMigrations,
+      );
+
+      if (migrationFiles.length === 0) {
+        const message = pending
+          ? 'No pending migrations found'
+          : 'No migration files found';
+        log(`ℹ️  ${message}`);
+        output.warnings.push(message);
+        this.printJson(json, { ...output, success: true });
+        return;
+      }
+
+      output.migrationFiles = migrationFiles;
+      if (migrationFiles.length === 1) {
+        output.migrationFile = migrationFiles[0];
+      }
+
       if (verbose) {
-        console.log(`📄 Latest migration: ${latestMigration}`);
+        migrationFiles.forEach((migrationFile) => {
+          log(
+            `📄 ${
+              isLatest ? 'Latest migration' : 'Migration'
+            }: ${migrationFile}`,
+          );
+        });
       }
 
-      const result = await fixer.fixLatestMigration();
+      if (undo) {
+        await this.restoreBackups(
+          fixer,
+          migrationFiles,
+          appliedMigrations,
+          options,
+          output,
+          log,
+        );
+        return;
+      }
 
-      if (!result) {
-        console.log('✅ Latest migration does not require column order fixes');
+      const results: MigrationFixResult[] = [];
+      for (const migrationFile of migrationFiles) {
+        const result = await fixer.fixMigration(migrationFile);
+        if (result) {
+          results.push(result);
+        }
+      }
+
+      output.results = results;
+      if (migrationFiles.length === 1) {
+        output.result = results[0] ?? null;
+      }
+
+      if (results.length === 0) {
+        log(
+          migrationFiles.length === 1
+            ? `✅ ${
+                isLatest ? 'Latest migration' : 'Migration'
+              } does not require column order fixes`
+            : `✅ None of the ${migrationFiles.length} migrations require column order fixes`,
+        );
+        this.printJson(json, { ...output, success: true });
         return;
       }
 
-      console.log(`\n🔧 Found column order issues in: ${result.migrationFile}`);
-      console.log(`📝 Changes needed: ${result.changes.length}\n`);
+      for (const result of results) {
+        log(`\n🔧 Found column order issues in: ${result.migrationFile}`);
+        log(`📝 Changes needed: ${result.changes.length}\n`);
 
-      if (verbose) {
-        result.changes.forEach((change) => {
-          console.log(`   - ${change}`);
-        });
-        console.log();
+        if (verbose) {
+          result.changes.forEach((change) => {
+            log(`   - ${change}`);
+          });
+          log();
+        }
+
+        log('📋 Original SQL:');
+        log(result.originalSql);
+        log('\n🔧 Fixed SQL:');
+        log(result.fixedSql);
       }
 
-      console.log('📋 Original SQL:');
-      console.log(result.originalSql);
-      console.log('\n🔧 Fixed SQL:');
-      console.log(result.fixedSql);
+      if (migrationFiles.length > 1) {
+        const changeCount = results.reduce(
+          (count, result) => count + result.changes.length,
+          0,
+        );
+        log(
+          `\n📊 ${results.length} of ${migrationFiles.length} migrations need column order fixes (${changeCount} changes)`,
+        );
+      }
+
+      await this.warnAboutRebuilds(
+        fixer,
+        results.flatMap((result) => result.rebuildTables ?? []),
+        output,
+        log,
+      );
 
       if (apply) {
-        console.log('\n💾 Applying fixes to migration file...');
-        const success = await fixer.applyFixes();
-        if (success) {
-          console.log('✅ Migration file has been updated successfully');
-        } else {
-          console.log('❌ Failed to apply fixes to migration file');
+        log(
+          `\n💾 Applying fixes to ${
+            results.length === 1 ? 'migration file' : 'migration files'
+          }...`,
+        );
+
+        // Editing an applied migration breaks its checksum in Prisma, so
+        // nothing is edited unknowingly when that cannot be checked. A file
+        // outside the migrations directory is no migration Prisma applied.
+        const checkApplied = results.some((result) =>
+          fixer.isMigrationFile(result.migrationFile),
+        );
+        if (appliedMigrations === null && checkApplied) {
+          try {
+            appliedMigrations = await this.readAppliedMigrations(
+              fixer,
+              appliedList,
+            );
+          } catch (error) {
+            const reason = `Could not check which migrations are applied: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`;
+            if (!assumeUnapplied || appliedList) {
+              throw new Error(
+                `${reason}. Pass --applied-list, or --assume-unapplied to edit the migrations anyway`,
+              );
+            }
+            log(`⚠️  ${reason}`);
+            output.warnings.push(reason);
+          }
         }
+        const applied = new Set(appliedMigrations ?? []);
+
+        for (const result of results) {
+          const migrationName = fixer.getMigrationName(result.migrationFile);
+          const isApplied =
+            fixer.isMigrationFile(result.migrationFile) &&
+            applied.has(migrationName);
+
+          if (isApplied && !updateChecksum) {
+            log(
+              `❌ ${migrationName} is already applied to the database, leaving it unchanged`,
+            );
+            output.errors.push(
+              `Migration "${migrationName}" is already applied to the database; run again with --update-checksum to fix it and update its checksum in _prisma_migrations`,
+            );
+            continue;
+          }
+
+          const success = await fixer.applyFixes(result);
+          if (success) {
+            log(
+              results.length === 1
+                ? '✅ Migration file has been updated successfully'
+                : `✅ Updated ${result.migrationFile}`,
+            );
+            if (verbose) {
+              log(
+                `   Original saved to ${fixer.getBackupFile(
+                  result.migrationFile,
+                )} (restore it with --undo)`,
+              );
+            }
+            if (isApplied) {
+              await fixer.updateChecksum(result.migrationFile);
+              log(
+                `🔑 Updated the checksum of ${migrationName} in _prisma_migrations`,
+              );
+            }
+          } else {
+            log(`❌ Failed to apply fixes to ${result.migrationFile}`);
+            output.errors.push(
+              `Failed to apply fixes to migration file: ${result.migrationFile}`,
+            );
+          }
+        }
+        output.applied = output.errors.length === 0;
       } else {
-        console.log(
+        log(
           '\n💡 To apply these fixes, run the command again with --apply flag',
         );
       }
+
+      this.printJson(json, {
+        ...output,
+        success: output.errors.length === 0,
+      });
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Error during migration fix operation:');
-      console.error(error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      console.error(message);
+      this.printJson(json, { ...output, errors: [message] });
+      // Not process.exit(), so the connection is closed below
+      process.exitCode = 1;
+      return;
+    } finally {
+      await fixer.disconnect();
+    }
+
+    // Fixes that could not be applied, e.g. to applied migrations
+    if (output.errors.length > 0) {
+      process.exitCode = 1;
+    }
+  }
+
+  /**
+   * Restore the selected migration files from the backups --apply saved.
+   * With --update-checksum the checksum of applied ones is stored again.
+   */
+  private async restoreBackups(
+    fixer: MigrationFixer,
+    migrationFiles: string[],
+    appliedMigrations: string[] | null,
+    { appliedList, updateChecksum, json = false }: FixMigrationOptions,
+    output: FixMigrationJsonOutput,
+    log: (message?: string) => void,
+  ): Promise<void> {
+    const restoredFiles: string[] = [];
+    const refusals: string[] = [];
+    for (const migrationFile of migrationFiles) {
+      try {
+        if (fixer.restoreBackup(migrationFile)) {
+          restoredFiles.push(migrationFile);
+          log(`↩️  Restored ${migrationFile}`);
+        }
+      } catch (error) {
+        refusals.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    if (restoredFiles.length === 0 && refusals.length === 0) {
+      const message = 'No backups found to restore';
+      log(`ℹ️  ${message}`);
+      output.warnings.push(message);
+    }
+
+    // The checksum --update-checksum stored belongs to the fixed file
+    const restoredMigrations = restoredFiles.filter((migrationFile) =>
+      fixer.isMigrationFile(migrationFile),
+    );
+    if (updateChecksum && restoredMigrations.length > 0) {
+      const applied = new Set(
+        appliedMigrations ??
+          (await this.readAppliedMigrations(fixer, appliedList)),
+      );
+
+      for (const migrationFile of restoredMigrations) {
+        const migrationName = fixer.getMigrationName(migrationFile);
+        if (applied.has(migrationName)) {
+          await fixer.updateChecksum(migrationFile);
+          log(
+            `🔑 Updated the checksum of ${migrationName} in _prisma_migrations`,
+          );
+        }
+      }
+    }
+
+    // Reported after the other files are restored
+    if (refusals.length > 0) {
+      output.restoredFiles = restoredFiles;
+      throw new Error(refusals.join('\n'));
+    }
+
+    this.printJson(json, { ...output, restoredFiles, success: true });
+  }
+
+  /**
+   * Read the server version from the database. The version decides between
+   * ALGORITHM=INSTANT and a rebuild warning, fixes work without it.
+   */
+  private async detectServerVersion(
+    fixer: MigrationFixer,
+    verbose: boolean,
+    log: (message?: string) => void,
+  ): Promise<string | undefined> {
+    try {
+      const version = await fixer.detectServerVersion();
+      if (verbose) {
+        log(`Server version: ${version}`);
+      }
+      return version;
+    } catch (error) {
+      if (verbose) {
+        log(
+          `ℹ️  Could not detect the server version, use --server-version to check for table rebuilds: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        );
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Fix the SQL read from stdin and write it to stdout, unchanged when it
+   * needs no fixes. Everything else goes to stderr.
+   */
+  private async fixStdin(
+    fixer: MigrationFixer,
+    output: FixMigrationJsonOutput,
+    { verbose, json }: { verbose: boolean; json: boolean },
+  ): Promise<void> {
+    const log = json ? () => undefined : console.error;
+    const sql = await this.readStdin();
+    const fix = await fixer.fixMigrationSql(sql);
+
+    if (fix) {
+      log(`🔧 Fixed ${fix.changes.length} column order issues`);
+      if (verbose) {
+        fix.changes.forEach((change) => {
+          log(`   - ${change}`);
+        });
+      }
+      await this.warnAboutRebuilds(fixer, fix.rebuildTables, output, log);
+    } else if (verbose) {
+      log('✅ SQL does not require column order fixes');
+    }
+
+    if (json) {
+      const result: MigrationFixResult | null = fix
+        ? {
+            migrationFile: '-',
+            originalSql: sql,
+            fixedSql: fix.sql,
+            changes: fix.changes,
+            ...(fix.rebuildTables.length > 0
+              ? { rebuildTables: fix.rebuildTables }
+              : {}),
+          }
+        : null;
+      this.printJson(json, {
+        ...output,
+        success: true,
+        migrationFile: '-',
+        result,
+        migrationFiles: ['-'],
+        results: result ? [result] : [],
+      });
+      return;
+    }
+
+    process.stdout.write(fix ? fix.sql : sql);
+  }
+
+  /**
+   * Read all of stdin
+   */
+  private async readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+
+  /**
+   * Warn about the tables the fixed statements rebuild on the target server
+   */
+  private async warnAboutRebuilds(
+    fixer: MigrationFixer,
+    tables: TableReference[],
+    output: FixMigrationJsonOutput,
+    log: (message?: string) => void,
+  ): Promise<void> {
+    const rebuildTables = [
+      ...new Map(
+        tables.map((table) => [this.formatTableName(table), table]),
+      ).values(),
+    ];
+
+    if (rebuildTables.length === 0) {
+      return;
+    }
+
+    const serverVersion = fixer.getServerVersion();
+    const warning = `${
+      serverVersion ? `Server ${serverVersion}` : 'The server'
+    } cannot apply the fixed column positions instantly, so the fixed ALTER TABLE statements rebuild these tables: ${rebuildTables
+      .map((table) => this.formatTableName(table))
+      .join(', ')}`;
+    log(`\n⚠️  ${warning}`);
+    output.warnings.push(warning);
+    await this.printTableSizes(fixer, rebuildTables, log);
+  }
+
+  /**
+   * Get the migration files to fix: the latest one, a named one, a named one
+   * and all later ones, every pending one, or any SQL file
+   */
+  private async selectMigrations(
+    fixer: MigrationFixer,
+    { migration, since, pending, file }: FixMigrationOptions,
+    appliedMigrations: string[] | null,
+  ): Promise<string[]> {
+    if (file) {
+      if (!existsSync(file)) {
+        throw new Error(`Migration file not found: ${file}`);
+      }
+      return [resolve(file)];
+    }
+
+    if (migration) {
+      return [fixer.findMigration(migration)];
+    }
+
+    if (since) {
+      return fixer.getMigrationsSince(since);
+    }
+
+    if (pending) {
+      return fixer.getPendingMigrations(appliedMigrations ?? undefined);
+    }
+
+    const latestMigration = fixer.getLatestMigration();
+    return latestMigration ? [latestMigration] : [];
+  }
+
+  /**
+   * Read the names of the applied migrations from the list file when one is
+   * given, otherwise from the database
+   */
+  private async readAppliedMigrations(
+    fixer: MigrationFixer,
+    appliedList?: string,
+  ): Promise<string[]> {
+    return appliedList
+      ? this.readAppliedList(appliedList)
+      : fixer.getAppliedMigrations();
+  }
+
+  /**
+   * Read applied migration names from a file, one per line. Blank lines and
+   * `#` comments are skipped.
+   */
+  private readAppliedList(appliedList: string): string[] {
+    try {
+      return readFileSync(appliedList, 'utf-8')
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith('#'));
+    } catch (error) {
+      throw new Error(
+        `Failed to read applied migrations list: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Print the size of the tables a migration rebuilds, or only their names
+   * when the database cannot be read
+   */
+  private async printTableSizes(
+    fixer: MigrationFixer,
+    tables: TableReference[],
+    log: (message?: string) => void,
+  ): Promise<void> {
+    let sizes: TableSize[] = [];
+    try {
+      sizes = await fixer.getTableSizes(tables);
+    } catch {
+      // Sizes are informational only
+    }
+
+    tables.forEach((table) => {
+      const tableName = this.formatTableName(table);
+      const size = sizes.find(
+        (other) => this.formatTableName(other) === tableName,
+      );
+      log(
+        size
+          ? `   - ${tableName}: ~${size.rows} rows, ${this.formatBytes(
+              size.bytes,
+            )}`
+          : `   - ${tableName}`,
+      );
+    });
+  }
+
+  /**
+   * Name a table for humans, with its schema when it has one
+   */
+  private formatTableName({ tableName, schemaName }: TableReference): string {
+    return schemaName ? `${schemaName}.${tableName}` : tableName;
+  }
+
+  /**
+   * Format a byte count for humans, e.g. `1.5 MB`
+   */
+  private formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+  }
+
+  /**
+   * Print the --json output document
+   */
+  private printJson(json: boolean, output: FixMigrationJsonOutput): void {
+    if (json) {
+      console.log(JSON.stringify(output, null, 2));
     }
   }
 }
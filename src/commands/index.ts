@@ -1,2 +1,4 @@
 export { SyncCommand } from './sync';
 export { FixMigrationCommand } from './fix-migration';
+export { CheckCommand } from './check';
+export { AuditMigrationsCommand } from './audit-migrations';
@@ -2,7 +2,11 @@ import { ColumnReorderGenerator } from '../lib/column-reorder';
 import { SchemaReader } from '../lib/schema-reader';
 import { DatabaseConnector } from '../lib/database-connector';
 import { MigrationCreator } from '../lib';
-import { type SyncOptions } from '../types';
+import {
+  JSON_OUTPUT_VERSION,
+  type SyncJsonOutput,
+  type SyncOptions,
+} from '../types';
 
 /**
  * Sync command implementation - reorders database columns to match schema
@@ -16,13 +20,30 @@ export class SyncCommand {
       model: targetModels,
       schema: schemaPath,
       verbose = false,
+      perColumn = false,
+      includeIgnored = false,
+      json = false,
+      offline = false,
+      migrationsDir,
     } = options;
 
+    // With --json only the output document is written to stdout
+    const log = json ? () => undefined : console.log;
+    const output: SyncJsonOutput = {
+      version: JSON_OUTPUT_VERSION,
+      command: 'sync',
+      success: false,
+      results: [],
+      migration: null,
+      warnings: [],
+      errors: [],
+    };
+
     if (verbose) {
-      console.log('🔄 Starting column reorder sync...');
-      console.log(`Schema path: ${schemaPath || 'prisma/schema.prisma'}`);
+      log('🔄 Starting column reorder sync...');
+      log(`Schema path: ${schemaPath || 'prisma/schema.prisma'}`);
       if (targetModels?.length) {
-        console.log(`Target models: ${targetModels.join(', ')}`);
+        log(`Target models: ${targetModels.join(', ')}`);
       }
     }
 
@@ -39,75 +60,57 @@ export class SyncCommand {
         if (validation.errors.length > 0) {
           validation.errors.forEach((error) => console.error(`   ${error}`));
         }
-        process.exit(1);
+        this.exitWithError(json, output, [
+          `Database provider "${validation.provider}" is not supported`,
+          ...validation.errors,
+        ]);
       }
 
-      if (verbose) {
-        console.log(
-          `✅ Database provider "${validation.provider}" is supported`,
-        );
-      }
+      output.warnings.push(...validation.errors);
 
-      // Test database connection before proceeding
       if (verbose) {
-        console.log('🔗 Testing database connection...');
+        log(`✅ Database provider "${validation.provider}" is supported`);
       }
 
-      // Get database URL from schema
-      let databaseUrl: string;
-      try {
-        databaseUrl = await schemaReader.getDatabaseUrl();
-
+      if (offline) {
         if (verbose) {
-          console.log('📄 Database URL extracted from schema');
+          log(
+            `📜 Replaying migrations from ${
+              migrationsDir || 'prisma/migrations'
+            } instead of connecting to the database`,
+          );
         }
-      } catch (error) {
-        console.error('❌ Failed to extract database URL from schema');
-        console.error(
-          `   Error: ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`,
+      } else {
+        await this.testDatabaseConnection(
+          schemaReader,
+          validation.provider,
+          { json, verbose },
+          output,
         );
-        console.error(
-          '   Please check your schema.prisma datasource configuration',
-        );
-        process.exit(1);
-      }
-
-      const tempConnector = new DatabaseConnector(
-        validation.provider as any,
-        databaseUrl,
-      );
-      const connectionTest = await tempConnector.testConnection();
-
-      if (!connectionTest.success) {
-        console.error('❌ Failed to connect to database');
-        console.error(`   Error: ${connectionTest.error}`);
-        console.error('   Please check your DATABASE_URL in .env file');
-        process.exit(1);
-      }
-
-      await tempConnector.disconnect();
-
-      if (verbose) {
-        console.log('✅ Database connection successful');
       }
 
       // Generate reorder SQL
-      const generator = new ColumnReorderGenerator(schemaPath);
+      const generator = new ColumnReorderGenerator(schemaPath, {
+        perColumnStatements: perColumn,
+        includeIgnored,
+        offline,
+        migrationsDir,
+      });
 
       if (verbose) {
-        console.log('🔍 Analyzing schema and database...');
+        log('🔍 Analyzing schema and database...');
       }
 
       const results = await generator.generateReorderSQL(targetModels);
+      output.results = results;
 
       if (results.length === 0) {
-        console.log('✅ All columns are already in the correct order');
+        log('✅ All columns are already in the correct order');
+        this.printJson(json, { ...output, success: true });
         return;
       }
 
-      console.log(
+      log(
         `\n📋 Found ${results.length} model(s) that need column reordering\n`,
       );
 
@@ -117,15 +120,15 @@ export class SyncCommand {
 
       for (const result of results) {
         if (verbose) {
-          console.log(`🔧 Model: ${result.model}`);
-          console.log(`   Changes needed: ${result.changes.length}`);
+          log(`🔧 Model: ${result.model}`);
+          log(`   Changes needed: ${result.changes.length}`);
 
           result.changes.forEach((change) => {
-            console.log(
+            log(
               `   - Move "${change.column}" from position ${change.fromPosition} to ${change.toPosition}`,
             );
           });
-          console.log();
+          log();
         }
 
         // Add SQL to combined migration
@@ -139,7 +142,7 @@ export class SyncCommand {
       }
 
       // Create migration file
-      const migrationCreator = new MigrationCreator();
+      const migrationCreator = new MigrationCreator(migrationsDir);
       const migrationResult = migrationCreator.createMigration(
         combinedSql.trim(),
         'sync_column_order',
@@ -148,27 +151,112 @@ export class SyncCommand {
       if (!migrationResult.success) {
         console.error('❌ Failed to create migration file:');
         console.error(`   ${migrationResult.error}`);
-        process.exit(1);
+        this.exitWithError(json, output, [
+          `Failed to create migration file: ${migrationResult.error}`,
+        ]);
       }
 
-      console.log('✅ Migration file created successfully!');
-      console.log(`📁 Migration: ${migrationResult.migrationName}`);
-      console.log(`📄 File: ${migrationResult.migrationFile}`);
+      output.migration = {
+        name: migrationResult.migrationName,
+        file: migrationResult.migrationFile,
+      };
+
+      log('✅ Migration file created successfully!');
+      log(`📁 Migration: ${migrationResult.migrationName}`);
+      log(`📄 File: ${migrationResult.migrationFile}`);
 
       if (verbose) {
-        console.log('\n📋 Changes included:');
+        log('\n📋 Changes included:');
         allChanges.forEach((change) => {
-          console.log(`   - ${change}`);
+          log(`   - ${change}`);
         });
       }
 
-      console.log(
+      log(
         '\n💡 Review the migration file and run `prisma migrate dev` to apply the changes.',
       );
+      this.printJson(json, { ...output, success: true });
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
       console.error('❌ Error during sync operation:');
-      console.error(error instanceof Error ? error.message : 'Unknown error');
-      process.exit(1);
+      console.error(message);
+      this.exitWithError(json, output, [message]);
+    }
+  }
+
+  /**
+   * Make sure the database from the schema datasource can be reached
+   */
+  private async testDatabaseConnection(
+    schemaReader: SchemaReader,
+    provider: string,
+    { json, verbose }: { json: boolean; verbose: boolean },
+    output: SyncJsonOutput,
+  ): Promise<void> {
+    const log = json ? () => undefined : console.log;
+
+    // Test database connection before proceeding
+    if (verbose) {
+      log('🔗 Testing database connection...');
     }
+
+    // Get database URL from schema
+    let databaseUrl: string;
+    try {
+      databaseUrl = await schemaReader.getDatabaseUrl();
+
+      if (verbose) {
+        log('📄 Database URL extracted from schema');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to extract database URL from schema');
+      console.error(`   Error: ${message}`);
+      console.error(
+        '   Please check your schema.prisma datasource configuration',
+      );
+      this.exitWithError(json, output, [
+        `Failed to extract database URL from schema: ${message}`,
+      ]);
+    }
+
+    const tempConnector = new DatabaseConnector(provider as any, databaseUrl);
+    const connectionTest = await tempConnector.testConnection();
+
+    if (!connectionTest.success) {
+      console.error('❌ Failed to connect to database');
+      console.error(`   Error: ${connectionTest.error}`);
+      console.error('   Please check your DATABASE_URL in .env file');
+      this.exitWithError(json, output, [
+        `Failed to connect to database: ${connectionTest.error}`,
+      ]);
+    }
+
+    await tempConnector.disconnect();
+
+    if (verbose) {
+      log('✅ Database connection successful');
+    }
+  }
+
+  /**
+   * Print the --json output document
+   */
+  private printJson(json: boolean, output: SyncJsonOutput): void {
+    if (json) {
+      console.log(JSON.stringify(output, null, 2));
+    }
+  }
+
+  /**
+   * Exit with status 1, reporting the errors in the --json output document
+   */
+  private exitWithError(
+    json: boolean,
+    output: SyncJsonOutput,
+    errors: string[],
+  ): never {
+    this.printJson(json, { ...output, success: false, errors });
+    process.exit(1);
   }
 }
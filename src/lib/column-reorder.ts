@@ -1,21 +1,57 @@
 import { SchemaReader } from './schema-reader';
 import { DatabaseConnector } from './database-connector';
+import { MigrationReplayer } from './migration-replayer';
+import { quoteIdentifier, quoteTableName } from './sql-utils';
 import {
   ColumnChange,
   ColumnMetadata,
+  PrismaModel,
+  ReorderOptions,
   ReorderResult,
   SupportedProvider,
+  TableMetadata,
+  TableMetadataSource,
 } from '../types';
 
+/**
+ * A single column move, with positions taken from the simulated table order
+ * at the moment the move is applied
+ */
+interface PlannedColumnMove {
+  column: string;
+  fromPosition: number;
+  toPosition: number;
+  afterColumn: string | null;
+}
+
+/**
+ * A planned move together with the column definition used to redefine it
+ */
+interface ColumnMoveSQL {
+  column: string;
+  definition: string;
+  afterColumn: string | null;
+}
+
+/**
+ * A target model together with the name of its database table
+ */
+interface ModelTable {
+  model: PrismaModel;
+  tableName: string;
+}
+
 /**
  * Column reorder generator for different database providers
  */
 export class ColumnReorderGenerator {
   private schemaReader: SchemaReader;
-  private dbConnector: DatabaseConnector | null = null;
+  private dbConnector: TableMetadataSource | null = null;
+  private readonly options: ReorderOptions;
 
-  constructor(schemaPath?: string) {
+  constructor(schemaPath?: string, options: ReorderOptions = {}) {
     this.schemaReader = new SchemaReader(schemaPath);
+    this.options = options;
   }
 
   /**
@@ -34,18 +70,27 @@ export class ColumnReorderGenerator {
 
     const provider = analysis.provider as SupportedProvider;
 
-    // Get database URL from schema
-    const databaseUrl = await this.schemaReader.getDatabaseUrl();
-
-    // Initialize database connector with the extracted URL
-    this.dbConnector = new DatabaseConnector(provider, databaseUrl);
+    // Offline, the migration history stands in for the database
+    this.dbConnector = this.options.offline
+      ? new MigrationReplayer(this.options.migrationsDir)
+      : new DatabaseConnector(
+          provider,
+          await this.schemaReader.getDatabaseUrl(),
+        );
 
     try {
       await this.dbConnector.connect();
 
-      const targetModels = modelNames
-        ? analysis.models.filter((model) => modelNames.includes(model.name))
-        : analysis.models;
+      // Views have no columns of their own to reorder, and @@ignore models
+      // are only reordered when asked for
+      const targetModels = (
+        modelNames
+          ? analysis.models.filter((model) => modelNames.includes(model.name))
+          : analysis.models
+      ).filter(
+        (model) =>
+          !model.isView && (this.options.includeIgnored || !model.isIgnored),
+      );
 
       if (modelNames) {
         const missingModels = modelNames.filter(
@@ -58,10 +103,34 @@ export class ColumnReorderGenerator {
         }
       }
 
+      // Resolve table names (considering @@map) and load the columns of all
+      // target tables at once, instead of querying table by table
+      const targetTables: ModelTable[] = [];
+      for (const model of targetModels) {
+        targetTables.push({
+          model,
+          tableName: await this.schemaReader.getTableName(model.name),
+        });
+      }
+
+      const tablesMetadata = await this.loadTablesMetadata(targetTables);
+
       const results: ReorderResult[] = [];
 
-      for (const model of targetModels) {
-        const result = await this.generateModelReorderSQL(model.name, provider);
+      for (const { model, tableName } of targetTables) {
+        const tableKey = this.getTableKey(tableName, model.schema);
+        const tableMetadata = tablesMetadata.get(tableKey);
+        if (!tableMetadata) {
+          throw new Error(
+            `Table "${tableKey}" not found for model "${model.name}"`,
+          );
+        }
+        const result = await this.generateModelReorderSQL(
+          model,
+          tableName,
+          tableMetadata,
+          provider,
+        );
         if (result.changes.length > 0) {
           results.push(result);
         }
@@ -75,20 +144,89 @@ export class ColumnReorderGenerator {
     }
   }
 
+  /**
+   * Key of a table in the loaded metadata, unique across schemas
+   */
+  private getTableKey(tableName: string, schemaName?: string): string {
+    return schemaName ? `${schemaName}.${tableName}` : tableName;
+  }
+
+  /**
+   * Load the column metadata of the tables behind the target models with one
+   * query per database schema, and report every table that does not exist
+   */
+  private async loadTablesMetadata(
+    targetTables: ModelTable[],
+  ): Promise<Map<string, TableMetadata>> {
+    if (!this.dbConnector) {
+      throw new Error('Database connector not initialized');
+    }
+
+    const tablesBySchema = new Map<string | undefined, string[]>();
+    for (const { model, tableName } of targetTables) {
+      const tableNames = tablesBySchema.get(model.schema) || [];
+      if (!tableNames.includes(tableName)) {
+        tableNames.push(tableName);
+      }
+      tablesBySchema.set(model.schema, tableNames);
+    }
+
+    const tablesMetadata = new Map<string, TableMetadata>();
+    for (const [schemaName, tableNames] of tablesBySchema) {
+      const tables = await this.dbConnector.getTablesMetadata(
+        tableNames,
+        schemaName,
+      );
+      for (const table of tables) {
+        tablesMetadata.set(this.getTableKey(table.name, schemaName), table);
+      }
+    }
+
+    const missingTables = targetTables.filter(
+      ({ model, tableName }) =>
+        !tablesMetadata.has(this.getTableKey(tableName, model.schema)),
+    );
+    if (missingTables.length > 0) {
+      throw new Error(
+        missingTables
+          .map(
+            ({ model, tableName }) =>
+              `Table "${this.getTableKey(
+                tableName,
+                model.schema,
+              )}" not found in ${
+                this.options.offline ? 'migration history' : 'database'
+              } for model "${model.name}"${
+                model.sourceFile ? ` (${model.sourceFile})` : ''
+              }`,
+          )
+          .join('\n'),
+      );
+    }
+
+    return tablesMetadata;
+  }
+
   /**
    * Generate SQL for reordering columns in a specific model
    */
   private async generateModelReorderSQL(
-    modelName: string,
+    model: PrismaModel,
+    tableName: string,
+    tableMetadata: TableMetadata,
     provider: SupportedProvider,
   ): Promise<ReorderResult> {
     if (!this.dbConnector) {
       throw new Error('Database connector not initialized');
     }
 
+    const modelName = model.name;
+    const schemaName = model.schema;
+
     // Get schema field order
     const schemaFieldOrder = await this.schemaReader.getModelFieldOrder(
       modelName,
+      this.options.includeIgnored === true,
     );
 
     // Get field to column name mapping (considering @map directives)
@@ -96,20 +234,6 @@ export class ColumnReorderGenerator {
       modelName,
     );
 
-    // Get actual database table name (considering @@map)
-    const tableName = await this.schemaReader.getTableName(modelName);
-
-    // Check if table exists in database
-    const tableExists = await this.dbConnector.tableExists(tableName);
-    if (!tableExists) {
-      throw new Error(
-        `Table "${tableName}" not found in database for model "${modelName}"`,
-      );
-    }
-
-    // Get actual database table metadata
-    const tableMetadata = await this.dbConnector.getTableMetadata(tableName);
-
     // Extract current column order from database
     const currentDbOrder = tableMetadata.columns.map(
       (col: ColumnMetadata) => col.name,
@@ -121,101 +245,301 @@ export class ColumnReorderGenerator {
       .filter((columnName) => currentDbOrder.includes(columnName)); // Only include actual DB columns
 
     const changes: ColumnChange[] = [];
-    const sqlStatements: string[] = [];
-
-    // Compare orders and generate changes
-    for (let i = 0; i < expectedColumnOrder.length; i++) {
-      const columnName = expectedColumnOrder[i];
-      const currentPosition = currentDbOrder.indexOf(columnName);
-
-      if (currentPosition !== i) {
-        // Find the original field name for better reporting
-        const fieldName =
-          schemaFieldOrder.find(
-            (field) => (fieldColumnMapping.get(field) || field) === columnName,
-          ) || columnName;
-
-        changes.push({
-          column: fieldName, // Use field name for reporting
-          fromPosition: currentPosition,
-          toPosition: i,
-          operation: 'move',
-        });
+    const columnMoves: ColumnMoveSQL[] = [];
 
-        // Find the column metadata
-        const columnMetadata = tableMetadata.columns.find(
-          (col: ColumnMetadata) => col.name === columnName,
-        );
-        if (!columnMetadata) {
-          throw new Error(`Column metadata not found for ${columnName}`);
-        }
+    // Plan the smallest set of moves, in the order they have to be applied
+    const moves = this.planColumnMoves(currentDbOrder, expectedColumnOrder);
 
-        // Generate SQL based on provider
-        const sql = this.generateColumnReorderSQL(
-          tableName,
-          columnName, // Use actual column name for SQL
-          columnMetadata,
-          expectedColumnOrder,
-          i,
-          provider,
-        );
-        if (sql) {
-          sqlStatements.push(sql);
-        }
+    this.assertGeneratedColumnDependencies(
+      tableName,
+      tableMetadata.columns,
+      currentDbOrder,
+      moves,
+    );
+
+    // Moved columns are redefined verbatim from SHOW CREATE TABLE, so only
+    // fetch the definitions when something actually has to move
+    const columnDefinitions =
+      moves.length > 0
+        ? await this.dbConnector.getColumnDefinitions(
+            tableName,
+            schemaName,
+            moves.map((move) => move.column),
+          )
+        : new Map<string, string>();
+
+    for (const move of moves) {
+      // Find the original field name for better reporting
+      const fieldName =
+        schemaFieldOrder.find(
+          (field) => (fieldColumnMapping.get(field) || field) === move.column,
+        ) || move.column;
+
+      changes.push({
+        column: fieldName, // Use field name for reporting
+        fromPosition: move.fromPosition,
+        toPosition: move.toPosition,
+        operation: 'move',
+      });
+
+      // Find the column metadata
+      const columnMetadata = tableMetadata.columns.find(
+        (col: ColumnMetadata) => col.name === move.column,
+      );
+      if (!columnMetadata) {
+        throw new Error(`Column metadata not found for ${move.column}`);
       }
+
+      columnMoves.push({
+        column: move.column,
+        definition: columnDefinitions.get(move.column) ?? columnMetadata.type,
+        afterColumn: move.afterColumn,
+      });
     }
 
+    // Generate SQL based on provider
+    const sqlStatements =
+      columnMoves.length > 0
+        ? this.generateTableReorderSQL(
+            tableName,
+            columnMoves,
+            provider,
+            schemaName,
+          )
+        : [];
+
     return {
       model: modelName,
+      table: tableName,
+      ...(schemaName ? { schema: schemaName } : {}),
       changes,
       sql: sqlStatements,
     };
   }
 
+  /**
+   * Plan the minimal set of column moves that turns the current order into
+   * the expected order.
+   *
+   * Columns forming the longest subsequence that is already in the expected
+   * relative order stay where they are; every other column is moved right
+   * after its schema predecessor. Moves are simulated one after another, so
+   * positions always describe the table as it is when the move runs.
+   */
+  private planColumnMoves(
+    currentOrder: string[],
+    expectedOrder: string[],
+  ): PlannedColumnMove[] {
+    const currentPositions = expectedOrder.map((column) =>
+      currentOrder.indexOf(column),
+    );
+    const stableIndexes =
+      this.findLongestIncreasingSubsequence(currentPositions);
+
+    const simulatedOrder = [...currentOrder];
+    const moves: PlannedColumnMove[] = [];
+
+    for (let i = 0; i < expectedOrder.length; i++) {
+      if (stableIndexes.has(i)) {
+        continue;
+      }
+
+      const column = expectedOrder[i];
+      const afterColumn = i === 0 ? null : expectedOrder[i - 1];
+
+      const fromPosition = simulatedOrder.indexOf(column);
+      simulatedOrder.splice(fromPosition, 1);
+
+      const toPosition =
+        afterColumn === null ? 0 : simulatedOrder.indexOf(afterColumn) + 1;
+      simulatedOrder.splice(toPosition, 0, column);
+
+      moves.push({ column, fromPosition, toPosition, afterColumn });
+    }
+
+    return moves;
+  }
+
+  /**
+   * Apply planned moves to a column order and return the resulting order
+   */
+  private applyColumnMoves(
+    order: string[],
+    moves: PlannedColumnMove[],
+  ): string[] {
+    const result = [...order];
+
+    for (const move of moves) {
+      result.splice(result.indexOf(move.column), 1);
+      result.splice(move.toPosition, 0, move.column);
+    }
+
+    return result;
+  }
+
+  /**
+   * Refuse a plan that would move a generated column in front of a column
+   * its expression reads from
+   */
+  private assertGeneratedColumnDependencies(
+    tableName: string,
+    columns: ColumnMetadata[],
+    currentOrder: string[],
+    moves: PlannedColumnMove[],
+  ): void {
+    if (moves.length === 0) {
+      return;
+    }
+
+    const finalOrder = this.applyColumnMoves(currentOrder, moves);
+
+    for (const column of columns) {
+      if (!column.generationExpression) {
+        continue;
+      }
+
+      const dependencies = this.getExpressionDependencies(
+        column.generationExpression,
+        currentOrder,
+      );
+
+      for (const dependency of dependencies) {
+        if (dependency === column.name) {
+          continue;
+        }
+
+        const wasBefore =
+          currentOrder.indexOf(dependency) < currentOrder.indexOf(column.name);
+        const isBefore =
+          finalOrder.indexOf(dependency) < finalOrder.indexOf(column.name);
+
+        if (wasBefore && !isBefore) {
+          throw new Error(
+            `Cannot move generated column "${column.name}" before "${dependency}" in table "${tableName}": its expression depends on "${dependency}"`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Find the table columns referenced by a generation expression
+   */
+  private getExpressionDependencies(
+    expression: string,
+    columnNames: string[],
+  ): string[] {
+    const dependencies = new Set<string>();
+    const withoutStrings = expression.replace(/'(?:[^'\\]|\\.|'')*'/g, "''");
+
+    for (const match of withoutStrings.matchAll(/`((?:[^`]|``)+)`/g)) {
+      const name = match[1].replace(/``/g, '`');
+      if (columnNames.includes(name)) {
+        dependencies.add(name);
+      }
+    }
+
+    // Unquoted identifiers that are not function calls
+    const unquoted = withoutStrings.replace(/`(?:[^`]|``)+`/g, ' ');
+    for (const match of unquoted.matchAll(/\b([A-Za-z_$][\w$]*)\b(?!\s*\()/g)) {
+      const name = columnNames.find(
+        (column) => column.toLowerCase() === match[1].toLowerCase(),
+      );
+      if (name) {
+        dependencies.add(name);
+      }
+    }
+
+    return [...dependencies];
+  }
+
+  /**
+   * Find the indexes of one longest strictly increasing subsequence
+   */
+  private findLongestIncreasingSubsequence(values: number[]): Set<number> {
+    // tails[k] holds the index of the smallest tail of a run of length k + 1
+    const tails: number[] = [];
+    const previous: number[] = new Array(values.length).fill(-1);
+
+    for (let i = 0; i < values.length; i++) {
+      let low = 0;
+      let high = tails.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (values[tails[mid]] < values[i]) {
+          low = mid + 1;
+        } else {
+          high = mid;
+        }
+      }
+
+      if (low > 0) {
+        previous[i] = tails[low - 1];
+      }
+      tails[low] = i;
+    }
+
+    const result = new Set<number>();
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    while (index !== -1) {
+      result.add(index);
+      index = previous[index];
+    }
+
+    return result;
+  }
+
   /**
    * Generate provider-specific SQL for column reordering
    */
-  private generateColumnReorderSQL(
+  private generateTableReorderSQL(
     tableName: string,
-    columnName: string,
-    columnMetadata: ColumnMetadata,
-    fieldOrder: string[],
-    targetPosition: number,
+    columnMoves: ColumnMoveSQL[],
     provider: SupportedProvider,
-  ): string | null {
+    schemaName?: string,
+  ): string[] {
     switch (provider) {
       case 'mysql':
       case 'mariadb':
-        return this.generateMySQLReorderSQL(
-          tableName,
-          columnName,
-          columnMetadata,
-          fieldOrder,
-          targetPosition,
-        );
+        return this.generateMySQLReorderSQL(tableName, columnMoves, schemaName);
 
       default:
-        return null;
+        return [];
     }
   }
 
   /**
-   * Generate MySQL/MariaDB specific column reorder SQL
+   * Generate MySQL/MariaDB specific column reorder SQL.
+   *
+   * MySQL applies the FIRST/AFTER clauses of one ALTER TABLE in order, so the
+   * planned moves can share a single statement and the table is rebuilt once.
    */
   private generateMySQLReorderSQL(
     tableName: string,
-    columnName: string,
-    columnMetadata: ColumnMetadata,
-    fieldOrder: string[],
-    targetPosition: number,
-  ): string {
-    const columnDefinition = columnMetadata.type;
-
-    if (targetPosition === 0) {
-      return `ALTER TABLE \`${tableName}\` MODIFY COLUMN \`${columnName}\` ${columnDefinition} FIRST;`;
-    } else {
-      const afterColumn = fieldOrder[targetPosition - 1];
-      return `ALTER TABLE \`${tableName}\` MODIFY COLUMN \`${columnName}\` ${columnDefinition} AFTER \`${afterColumn}\`;`;
+    columnMoves: ColumnMoveSQL[],
+    schemaName?: string,
+  ): string[] {
+    const quotedTableName = quoteTableName(tableName, schemaName);
+    const clauses = columnMoves.map(({ column, definition, afterColumn }) => {
+      const position =
+        afterColumn === null
+          ? 'FIRST'
+          : `AFTER ${quoteIdentifier(afterColumn)}`;
+      return `MODIFY COLUMN ${quoteIdentifier(
+        column,
+      )} ${definition} ${position}`;
+    });
+
+    if (this.options.perColumnStatements) {
+      return clauses.map(
+        (clause) => `ALTER TABLE ${quotedTableName} ${clause};`,
+      );
+    }
+
+    if (clauses.length === 1) {
+      return [`ALTER TABLE ${quotedTableName} ${clauses[0]};`];
     }
+
+    return [`ALTER TABLE ${quotedTableName}\n  ${clauses.join(',\n  ')};`];
   }
 }
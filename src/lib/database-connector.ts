@@ -1,18 +1,101 @@
-import mysql from 'mysql2/promise';
+import mysql, { type RowDataPacket } from 'mysql2/promise';
 import {
   SupportedProvider,
   DatabaseConfig,
   TableMetadata,
+  TableMetadataSource,
+  TableReference,
+  TableSize,
   ColumnMetadata,
 } from '../types';
+import { parseCreateTableColumns } from './ddl-parser';
+import { quoteTableName } from './sql-utils';
+
+/**
+ * Seconds to wait for a connection when the URL has no `connect_timeout`,
+ * the same default Prisma uses
+ */
+const DEFAULT_CONNECT_TIMEOUT = 5;
+
+/**
+ * Row versions after which InnoDB refuses further ALGORITHM=INSTANT column
+ * changes until the table is rebuilt
+ */
+const MAX_INSTANT_ROW_VERSIONS = 64;
+
+/**
+ * An INFORMATION_SCHEMA.COLUMNS row, as the column queries alias it
+ */
+interface ColumnRow extends RowDataPacket {
+  columnName: string;
+  dataType: string;
+  columnType: string;
+  isNullable: string;
+  columnDefault: string | null;
+  extra: string;
+  columnKey: string;
+  ordinalPosition: number | string;
+  generationExpression: string | null;
+}
+
+/**
+ * An INFORMATION_SCHEMA.COLUMNS row of a query over several tables
+ */
+interface TableColumnRow extends ColumnRow {
+  tableName: string;
+}
+
+/**
+ * An INFORMATION_SCHEMA.TABLES row of the table size query
+ */
+interface TableSizeRow extends RowDataPacket {
+  schemaName: string;
+  tableName: string;
+  tableRows: number | string | null;
+  bytes: number | string | null;
+}
+
+/**
+ * The storage details of a table that decide whether MySQL can alter it
+ * with ALGORITHM=INSTANT
+ */
+interface InstantAlterRow extends RowDataPacket {
+  rowFormat: string | null;
+  totalRowVersions: number | string | null;
+  hasFulltextIndex: number | string;
+}
+
+/**
+ * The row of `SELECT VERSION()`
+ */
+interface VersionRow extends RowDataPacket {
+  version: string;
+}
+
+/**
+ * A `_prisma_migrations` row
+ */
+interface AppliedMigrationRow extends RowDataPacket {
+  migration_name: string;
+}
+
+/**
+ * The row of `SHOW CREATE TABLE`
+ */
+interface CreateTableRow extends RowDataPacket {
+  'Create Table': string;
+}
 
 /**
  * Standalone database connector for fetching column metadata
  */
-export class DatabaseConnector {
+export class DatabaseConnector implements TableMetadataSource {
   private connection: mysql.Connection | null = null;
   private readonly provider: SupportedProvider;
   private config: DatabaseConfig;
+  private serverVersion: string | null = null;
+  // MySQL before 5.7 and MariaDB before 10.2.5 have no generated columns
+  private hasGenerationExpression = true;
 
   constructor(provider: SupportedProvider, databaseUrl: string) {
     this.provider = provider;
@@ -31,6 +114,10 @@ export class DatabaseConnector {
       user: url.username || 'root',
       password: url.password || '',
       database: url.pathname.replace('/', '') || 'test',
+      connectTimeout:
+        Number(
+          url.searchParams.get('connect_timeout') || DEFAULT_CONNECT_TIMEOUT,
+        ) * 1000,
     };
   }
 
@@ -48,6 +135,7 @@ export class DatabaseConnector {
       user: this.config.user,
       password: this.config.password,
       database: this.config.database,
+      connectTimeout: this.config.connectTimeout,
     });
   }
 
@@ -61,11 +149,212 @@ export class DatabaseConnector {
     }
   }
 
+  /**
+   * Get the server version string, e.g. `8.0.36` or `10.11.6-MariaDB`
+   */
+  public async getServerVersion(): Promise<string> {
+    if (this.serverVersion !== null) {
+      return this.serverVersion;
+    }
+
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    const [rows] = await this.connection.execute<VersionRow[]>(
+      'SELECT VERSION() as version',
+    );
+    const version = rows[0]?.version;
+    this.serverVersion = typeof version === 'string' ? version : '';
+
+    return this.serverVersion;
+  }
+
+  /**
+   * Get the names of the migrations Prisma has applied to the database, from
+   * its `_prisma_migrations` table. Rolled back and unfinished migrations do
+   * not count, and a database without the table has applied none.
+   */
+  public async getAppliedMigrations(): Promise<string[]> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    try {
+      const [rows] = await this.connection.execute<AppliedMigrationRow[]>(
+        `SELECT migration_name
+         FROM _prisma_migrations
+         WHERE finished_at IS NOT NULL
+           AND rolled_back_at IS NULL
+         ORDER BY migration_name`,
+      );
+      return rows.map((row) => row.migration_name);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ER_NO_SUCH_TABLE') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a new checksum for an applied migration in `_prisma_migrations`,
+   * so Prisma accepts its edited migration file
+   */
+  public async updateMigrationChecksum(
+    migrationName: string,
+    checksum: string,
+  ): Promise<void> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    const [result] = await this.connection.execute(
+      'UPDATE _prisma_migrations SET checksum = ? WHERE migration_name = ?',
+      [checksum, migrationName],
+    );
+
+    if ((result as { affectedRows?: number }).affectedRows === 0) {
+      throw new Error(
+        `Migration "${migrationName}" is not recorded in _prisma_migrations`,
+      );
+    }
+  }
+
+  /**
+   * Get the estimated row count and size of tables, each in its own schema
+   * or the connected database. Tables that do not exist are left out.
+   */
+  public async getTableSizes(tables: TableReference[]): Promise<TableSize[]> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    if (tables.length === 0) {
+      return [];
+    }
+
+    const conditions = tables.map((table) => {
+      const tableSchema = this.tableSchemaCondition(table.schemaName);
+      return {
+        condition: `(${tableSchema.condition} AND TABLE_NAME = ?)`,
+        params: [...tableSchema.params, table.tableName],
+      };
+    });
+
+    const [rows] = await this.connection.execute<TableSizeRow[]>(
+      `SELECT TABLE_SCHEMA                as schemaName,
+              TABLE_NAME                  as tableName,
+              TABLE_ROWS                  as tableRows,
+              DATA_LENGTH + INDEX_LENGTH  as bytes
+       FROM INFORMATION_SCHEMA.TABLES
+       WHERE ${conditions.map(({ condition }) => condition).join(' OR ')}`,
+      conditions.flatMap(({ params }) => params),
+    );
+    return tables.flatMap((table) => {
+      const size = rows.find(
+        (row) =>
+          row.tableName === table.tableName &&
+          row.schemaName === (table.schemaName ?? this.config.database),
+      );
+      return size
+        ? [
+            {
+              ...table,
+              rows: Number(size.tableRows ?? 0),
+              bytes: Number(size.bytes ?? 0),
+            },
+          ]
+        : [];
+    });
+  }
+
+  /**
+   * Why MySQL cannot alter a table with ALGORITHM=INSTANT, or null when
+   * nothing stops it or the table does not exist yet. Needs MySQL 8.0.29 or
+   * later, which reports TOTAL_ROW_VERSIONS.
+   */
+  public async getInstantAlterBlocker(
+    table: TableReference,
+  ): Promise<string | null> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    const tableSchema = this.tableSchemaCondition(table.schemaName);
+    const [rows] = await this.connection.execute<InstantAlterRow[]>(
+      `SELECT t.ROW_FORMAT           as rowFormat,
+              i.TOTAL_ROW_VERSIONS   as totalRowVersions,
+              EXISTS (
+                SELECT 1
+                FROM INFORMATION_SCHEMA.STATISTICS s
+                WHERE s.TABLE_SCHEMA = t.TABLE_SCHEMA
+                  AND s.TABLE_NAME = t.TABLE_NAME
+                  AND s.INDEX_TYPE = 'FULLTEXT'
+              )                      as hasFulltextIndex
+       FROM INFORMATION_SCHEMA.TABLES t
+       LEFT JOIN INFORMATION_SCHEMA.INNODB_TABLES i
+         ON i.NAME = CONCAT(t.TABLE_SCHEMA, '/', t.TABLE_NAME)
+       WHERE t.${tableSchema.condition}
+         AND t.TABLE_NAME = ?`,
+      [...tableSchema.params, table.tableName],
+    );
+    const row = rows[0];
+
+    if (!row) {
+      return null;
+    }
+
+    if (Number(row.hasFulltextIndex) > 0) {
+      return 'it has a FULLTEXT index';
+    }
+
+    if (String(row.rowFormat).toUpperCase() === 'COMPRESSED') {
+      return 'it uses ROW_FORMAT=COMPRESSED';
+    }
+
+    if (Number(row.totalRowVersions ?? 0) >= MAX_INSTANT_ROW_VERSIONS) {
+      return `it has reached ${MAX_INSTANT_ROW_VERSIONS} instant changes`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether metadata has to be read with MariaDB rules, either because the
+   * schema uses the `mariadb` provider or because the server reports itself
+   * as MariaDB (Prisma connects to MariaDB with the `mysql` provider too)
+   */
+  private async isMariaDB(): Promise<boolean> {
+    if (this.provider === 'mariadb') {
+      return true;
+    }
+
+    const version = await this.getServerVersion();
+    return version.toLowerCase().includes('mariadb');
+  }
+
+  /**
+   * Build the TABLE_SCHEMA condition of an INFORMATION_SCHEMA query. Tables
+   * without a schema (no multiSchema @@schema) live in the connected database.
+   */
+  private tableSchemaCondition(schemaName?: string): {
+    condition: string;
+    params: string[];
+  } {
+    return schemaName
+      ? { condition: 'TABLE_SCHEMA = ?', params: [schemaName] }
+      : { condition: 'TABLE_SCHEMA = DATABASE()', params: [] };
+  }
+
   /**
    * Get column metadata for a specific table
    */
-  public async getTableMetadata(tableName: string): Promise<TableMetadata> {
-    const columns = await this.getColumnMetadata(tableName);
+  public async getTableMetadata(
+    tableName: string,
+    schemaName?: string,
+  ): Promise<TableMetadata> {
+    const columns = await this.getColumnMetadata(tableName, schemaName);
     return {
       name: tableName,
       columns: columns.sort((a, b) => a.position - b.position),
@@ -73,19 +362,61 @@ export class DatabaseConnector {
   }
 
   /**
-   * Get column metadata for multiple tables
+   * Get column metadata for multiple tables in a single query, or for every
+   * table of the schema when no table names are given.
+   *
+   * Tables that do not exist are left out of the result, so callers can tell
+   * which tables are missing without querying each one.
    */
   public async getTablesMetadata(
-    tableNames: string[],
+    tableNames?: string[],
+    schemaName?: string,
   ): Promise<TableMetadata[]> {
-    const results: TableMetadata[] = [];
+    if (tableNames && tableNames.length === 0) {
+      return [];
+    }
 
-    for (const tableName of tableNames) {
-      const metadata = await this.getTableMetadata(tableName);
-      results.push(metadata);
+    switch (this.provider) {
+      case 'mysql':
+      case 'mariadb':
+        return await this.getMySQLTablesMetadata(tableNames, schemaName);
+      default:
+        throw new Error(`Unsupported provider: ${this.provider}`);
     }
+  }
 
-    return results;
+  /**
+   * Get the full column definitions of a table as the server reports them in
+   * `SHOW CREATE TABLE`, keyed by column name.
+   *
+   * These keep every column attribute (charset, collation, comment, generated
+   * expression, ...) so a column can be moved without otherwise changing it.
+   */
+  public async getColumnDefinitions(
+    tableName: string,
+    schemaName?: string,
+  ): Promise<Map<string, string>> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    switch (this.provider) {
+      case 'mysql':
+      case 'mariadb': {
+        const [rows] = await this.connection.execute<CreateTableRow[]>(
+          `SHOW CREATE TABLE ${quoteTableName(tableName, schemaName)}`,
+        );
+        const createTableSql = rows[0]?.['Create Table'];
+
+        if (typeof createTableSql !== 'string') {
+          return new Map();
+        }
+
+        return parseCreateTableColumns(createTableSql);
+      }
+      default:
+        throw new Error(`Unsupported provider: ${this.provider}`);
+    }
   }
 
   /**
@@ -105,11 +436,12 @@ export class DatabaseConnector {
    */
   private async getColumnMetadata(
     tableName: string,
+    schemaName?: string,
   ): Promise<ColumnMetadata[]> {
     switch (this.provider) {
       case 'mysql':
       case 'mariadb':
-        return await this.getMySQLColumnMetadata(tableName);
+        return await this.getMySQLColumnMetadata(tableName, schemaName);
       default:
         throw new Error(`Unsupported provider: ${this.provider}`);
     }
@@ -120,12 +452,15 @@ export class DatabaseConnector {
    */
   private async getMySQLColumnMetadata(
     tableName: string,
+    schemaName?: string,
   ): Promise<ColumnMetadata[]> {
     if (!this.connection) {
       throw new Error('Database connection not established');
     }
 
-    const query = `
+    const tableSchema = this.tableSchemaCondition(schemaName);
+
+    const query = (generationExpression: string) => `
       SELECT COLUMN_NAME      as columnName,
              DATA_TYPE        as dataType,
              COLUMN_TYPE      as columnType,
@@ -133,52 +468,267 @@ export class DatabaseConnector {
              COLUMN_DEFAULT   as columnDefault,
              EXTRA            as extra,
              COLUMN_KEY       as columnKey,
-             ORDINAL_POSITION as ordinalPosition
+             ORDINAL_POSITION as ordinalPosition,
+             ${generationExpression} as generationExpression
       FROM INFORMATION_SCHEMA.COLUMNS
-      WHERE TABLE_SCHEMA = DATABASE()
+      WHERE ${tableSchema.condition}
         AND TABLE_NAME = ?
       ORDER BY ORDINAL_POSITION
     `;
 
-    const [rows] = await this.connection.execute(query, [tableName]);
-    const result = rows as any[];
+    const isMariaDB = await this.isMariaDB();
+    const rows = await this.queryColumns<ColumnRow>(query, [
+      ...tableSchema.params,
+      tableName,
+    ]);
+
+    return rows.map((row, index) => this.mapColumnRow(row, index, isMariaDB));
+  }
+
+  /**
+   * Get MySQL/MariaDB column metadata for several tables with one
+   * INFORMATION_SCHEMA query
+   */
+  private async getMySQLTablesMetadata(
+    tableNames: string[] | undefined,
+    schemaName?: string,
+  ): Promise<TableMetadata[]> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    const tableSchema = this.tableSchemaCondition(schemaName);
+    const tableFilter = tableNames
+      ? `AND TABLE_NAME IN (${tableNames.map(() => '?').join(', ')})`
+      : '';
+
+    const query = (generationExpression: string) => `
+      SELECT TABLE_NAME       as tableName,
+             COLUMN_NAME      as columnName,
+             DATA_TYPE        as dataType,
+             COLUMN_TYPE      as columnType,
+             IS_NULLABLE      as isNullable,
+             COLUMN_DEFAULT   as columnDefault,
+             EXTRA            as extra,
+             COLUMN_KEY       as columnKey,
+             ORDINAL_POSITION as ordinalPosition,
+             ${generationExpression} as generationExpression
+      FROM INFORMATION_SCHEMA.COLUMNS
+      WHERE ${tableSchema.condition}
+        ${tableFilter}
+      ORDER BY TABLE_NAME, ORDINAL_POSITION
+    `;
+
+    const isMariaDB = await this.isMariaDB();
+    const rows = await this.queryColumns<TableColumnRow>(query, [
+      ...tableSchema.params,
+      ...(tableNames || []),
+    ]);
+
+    const tables = new Map<string, ColumnMetadata[]>();
+    for (const row of rows) {
+      const columns = tables.get(row.tableName) || [];
+      columns.push(this.mapColumnRow(row, columns.length, isMariaDB));
+      tables.set(row.tableName, columns);
+    }
+
+    // With lower_case_table_names the server may report a differently cased
+    // name than the one requested
+    const findColumns = (name: string) =>
+      tables.get(name) ||
+      [...tables].find(
+        ([tableName]) => tableName.toLowerCase() === name.toLowerCase(),
+      )?.[1];
+
+    // Keep the requested order; tables missing from the result do not exist
+    const results: TableMetadata[] = [];
+    for (const name of tableNames || [...tables.keys()]) {
+      const columns = findColumns(name);
+      if (columns) {
+        results.push({
+          name,
+          columns: columns.sort((a, b) => a.position - b.position),
+        });
+      }
+    }
+
+    return results;
+  }
 
-    return result.map((row: any, index: number) => ({
+  /**
+   * Run an INFORMATION_SCHEMA.COLUMNS query. Servers without generated
+   * columns have no GENERATION_EXPRESSION column, so they are queried again
+   * with NULL in its place.
+   */
+  private async queryColumns<T extends ColumnRow>(
+    query: (generationExpression: string) => string,
+    params: string[],
+  ): Promise<T[]> {
+    if (!this.connection) {
+      throw new Error('Database connection not established');
+    }
+
+    if (this.hasGenerationExpression) {
+      try {
+        const [rows] = await this.connection.execute<T[]>(
+          query('GENERATION_EXPRESSION'),
+          params,
+        );
+        return rows;
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'ER_BAD_FIELD_ERROR') {
+          throw error;
+        }
+        this.hasGenerationExpression = false;
+      }
+    }
+
+    const [rows] = await this.connection.execute<T[]>(query('NULL'), params);
+    return rows;
+  }
+
+  /**
+   * Convert an INFORMATION_SCHEMA.COLUMNS row into column metadata
+   */
+  private mapColumnRow(
+    row: ColumnRow,
+    index: number,
+    isMariaDB: boolean,
+  ): ColumnMetadata {
+    const generation = this.parseGeneration(row, isMariaDB);
+
+    return {
       name: row.columnName,
-      type: this.buildColumnTypeDefinition(row),
+      type: this.buildColumnTypeDefinition(row, isMariaDB),
       nullable: row.isNullable === 'YES',
-      defaultValue: row.columnDefault,
+      defaultValue: isMariaDB
+        ? this.parseMariaDBDefault(row.columnDefault)
+        : row.columnDefault,
       isAutoIncrement: row.extra.toLowerCase().includes('auto_increment'),
       isPrimaryKey: row.columnKey === 'PRI',
       isUnique: row.columnKey === 'UNI',
       extra: row.extra,
       position: Number(row.ordinalPosition) || index + 1,
-    }));
+      generationExpression: generation?.expression ?? null,
+      generationType: generation?.type ?? null,
+      isInvisible: /\binvisible\b/i.test(row.extra),
+    };
+  }
+
+  /**
+   * Read the expression and storage of a generated column, or null for a
+   * regular column
+   */
+  private parseGeneration(
+    row: ColumnRow,
+    isMariaDB: boolean,
+  ): { expression: string; type: 'VIRTUAL' | 'STORED' } | null {
+    const kind = String(row.extra || '').match(
+      /\b(virtual|stored|persistent) generated\b/i,
+    );
+
+    if (!kind || !row.generationExpression) {
+      return null;
+    }
+
+    // MySQL reports string literals in the expression with escaped quotes
+    const expression = isMariaDB
+      ? row.generationExpression
+      : row.generationExpression.replace(/\\'/g, "'");
+
+    return {
+      expression,
+      // MariaDB calls stored columns PERSISTENT, but accepts STORED as well
+      type: kind[1].toLowerCase() === 'virtual' ? 'VIRTUAL' : 'STORED',
+    };
+  }
+
+  /**
+   * Convert a MariaDB COLUMN_DEFAULT into the plain default value.
+   *
+   * Since 10.2.7 MariaDB reports defaults as SQL expressions: string literals
+   * come quoted, a NULL default is the literal `NULL`, and functions keep
+   * their parentheses.
+   */
+  private parseMariaDBDefault(columnDefault: string | null): string | null {
+    if (columnDefault === null || columnDefault.toUpperCase() === 'NULL') {
+      return null;
+    }
+
+    const quoted = columnDefault.match(/^'(.*)'$/s);
+    if (quoted) {
+      return quoted[1].replace(/''/g, "'").replace(/\\(.)/g, '$1');
+    }
+
+    return columnDefault;
+  }
+
+  /**
+   * Build the DEFAULT clause of a column definition, following the rules of
+   * the server the metadata was read from
+   */
+  private buildDefaultClause(
+    row: ColumnRow,
+    isMariaDB: boolean,
+  ): string | null {
+    const columnDefault = row.columnDefault;
+
+    if (columnDefault === null || columnDefault === undefined) {
+      return null;
+    }
+
+    if (isMariaDB) {
+      // MariaDB already reports the default as an SQL expression
+      return columnDefault.toUpperCase() === 'NULL'
+        ? null
+        : `DEFAULT ${columnDefault}`;
+    }
+
+    const value = String(columnDefault);
+    const extra = (row.extra || '').toLowerCase();
+
+    if (/^current_timestamp(\(\d*\))?$/i.test(value)) {
+      return `DEFAULT ${value.toUpperCase()}`;
+    }
+
+    // MySQL 8.0.13+ expression defaults have to be wrapped in parentheses
+    if (extra.includes('default_generated')) {
+      return `DEFAULT (${value})`;
+    }
+
+    // Bit literals are reported as b'0101'
+    if (/^b'[01]*'$/.test(value)) {
+      return `DEFAULT ${value}`;
+    }
+
+    return `DEFAULT '${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
   }
 
   /**
    * Build complete column type definition for MySQL/MariaDB
    */
-  private buildColumnTypeDefinition(row: any): string {
+  private buildColumnTypeDefinition(row: ColumnRow, isMariaDB = false): string {
     let definition = row.columnType;
+    const generation = this.parseGeneration(row, isMariaDB);
+
+    if (generation) {
+      // Generated columns are defined by their expression and take no DEFAULT
+      definition += ` GENERATED ALWAYS AS (${generation.expression}) ${generation.type}`;
 
-    // Add NOT NULL constraint
-    if (row.isNullable === 'NO') {
-      definition += ' NOT NULL';
-    }
-
-    // Add DEFAULT value
-    if (row.columnDefault !== null) {
-      // Handle different default value types
-      if (row.columnDefault === 'CURRENT_TIMESTAMP') {
-        definition += ` DEFAULT ${row.columnDefault}`;
-      } else if (
-        typeof row.columnDefault === 'string' &&
-        !['NULL', 'CURRENT_TIMESTAMP'].includes(row.columnDefault.toUpperCase())
-      ) {
-        definition += ` DEFAULT '${row.columnDefault}'`;
-      } else {
-        definition += ` DEFAULT ${row.columnDefault}`;
+      // MariaDB does not allow NOT NULL on generated columns
+      if (row.isNullable === 'NO' && !isMariaDB) {
+        definition += ' NOT NULL';
+      }
+    } else {
+      // Add NOT NULL constraint
+      if (row.isNullable === 'NO') {
+        definition += ' NOT NULL';
+      }
+
+      // Add DEFAULT value
+      const defaultClause = this.buildDefaultClause(row, isMariaDB);
+      if (defaultClause) {
+        definition += ` ${defaultClause}`;
       }
     }
 
@@ -187,16 +737,28 @@ export class DatabaseConnector {
       definition += ' AUTO_INCREMENT';
     }
 
-    // Add other extra attributes
+    // Add other extra attributes. DEFAULT_GENERATED is informational only,
+    // generation and visibility are handled separately
     const extraParts = row.extra
       .toLowerCase()
+      .replace(/\b(virtual|stored|persistent) generated\b/g, '')
       .split(' ')
-      .filter((part: string) => part && part !== 'auto_increment');
+      .filter(
+        (part: string) =>
+          part &&
+          part !== 'auto_increment' &&
+          part !== 'default_generated' &&
+          part !== 'invisible',
+      );
 
     if (extraParts.length > 0) {
       definition += ` ${extraParts.join(' ').toUpperCase()}`;
     }
 
+    if (/\binvisible\b/i.test(row.extra)) {
+      definition += ' INVISIBLE';
+    }
+
     return definition;
   }
 
@@ -224,7 +786,10 @@ export class DatabaseConnector {
   /**
    * Check if table exists in the database
    */
-  public async tableExists(tableName: string): Promise<boolean> {
+  public async tableExists(
+    tableName: string,
+    schemaName?: string,
+  ): Promise<boolean> {
     try {
       if (!this.connection) {
         await this.connect();
@@ -232,15 +797,17 @@ export class DatabaseConnector {
 
       switch (this.provider) {
         case 'mysql':
-        case 'mariadb':
-          const [rows] = await this.connection!.execute(
+        case 'mariadb': {
+          const tableSchema = this.tableSchemaCondition(schemaName);
+          const [rows] = await this.connection!.execute<RowDataPacket[]>(
             `SELECT TABLE_NAME
              FROM INFORMATION_SCHEMA.TABLES
-             WHERE TABLE_SCHEMA = DATABASE()
+             WHERE ${tableSchema.condition}
                AND TABLE_NAME = ?`,
-            [tableName],
+            [...tableSchema.params, tableName],
           );
-          return (rows as any[]).length > 0;
+          return rows.length > 0;
+        }
         default:
           return false;
       }
@@ -0,0 +1,795 @@
+import {
+  isKeyword,
+  isPunctuation,
+  isSignificant,
+  splitTokens,
+  tokenizeSql,
+  tokenValue,
+  type SqlToken,
+} from './sql-tokenizer';
+
+/**
+ * A table name, optionally qualified with its schema
+ */
+export interface TableName {
+  tableName: string;
+  schemaName?: string;
+}
+
+/**
+ * Where a statement sits in the script
+ */
+export interface StatementLocation {
+  /** Range of the statement, without the terminating semicolon */
+  start: number;
+  end: number;
+  /** 1-based line the statement starts on */
+  line: number;
+}
+
+/**
+ * A FIRST or AFTER clause placing a column, with its range in the script
+ */
+export interface ColumnPosition {
+  keyword: 'FIRST' | 'AFTER';
+  /** Column named by AFTER */
+  column?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A column definition of an ADD, MODIFY or CHANGE clause
+ */
+export interface ColumnDefinition {
+  name: string;
+  /**
+   * Definition (type, nullability, default, ...) without its position.
+   * Comments are left out and whitespace collapsed, so it can be copied
+   * into another statement.
+   */
+  definition: string;
+  position?: ColumnPosition;
+  /** Range of the column, from its name to the end of the definition */
+  start: number;
+  end: number;
+  /** Offset just past the definition, where a position clause belongs */
+  definitionEnd: number;
+}
+
+/**
+ * One comma-separated clause of an ALTER TABLE statement
+ */
+export interface AlterTableClause {
+  /** Leading keyword of the clause, upper-cased (ADD, DROP, MODIFY, ...) */
+  action: string;
+  /** Columns added by the clause */
+  columns: ColumnDefinition[];
+  /** Whether the clause adds a parenthesized column list, `ADD (a ..., b ...)` */
+  isColumnList: boolean;
+  /** Existing column a DROP, MODIFY, CHANGE or RENAME COLUMN clause targets */
+  targetColumn?: string;
+  /** New definition of the target column given by MODIFY or CHANGE */
+  redefinedColumn?: ColumnDefinition;
+  /** New name of the target column given by RENAME COLUMN */
+  newColumnName?: string;
+  /** New name of the table given by RENAME [TO | AS] */
+  newTable?: TableName;
+  /**
+   * Default of the target column set by ALTER COLUMN ... SET DEFAULT, or
+   * null for DROP DEFAULT
+   */
+  columnDefault?: string | null;
+  /**
+   * Whether the clause is understood: a column change the fields above
+   * describe, or a change that leaves the columns alone (index, key,
+   * constraint, partition or table option)
+   */
+  isRecognized: boolean;
+  start: number;
+  end: number;
+}
+
+/**
+ * An ALTER TABLE statement and its clauses
+ */
+export interface AlterTableStatement extends TableName, StatementLocation {
+  kind: 'ALTER TABLE';
+  clauses: AlterTableClause[];
+}
+
+/**
+ * An element of a CREATE TABLE body: a column, or a key, index or
+ * constraint (no column name)
+ */
+export interface TableElement {
+  columnName?: string;
+  /** Definition of a column, as for {@link ColumnDefinition.definition} */
+  definition?: string;
+  /** Range of the element, without the separating commas */
+  start: number;
+  end: number;
+}
+
+/**
+ * A CREATE TABLE statement and the elements of its body
+ */
+export interface CreateTableStatement extends TableName, StatementLocation {
+  kind: 'CREATE TABLE';
+  elements: TableElement[];
+}
+
+/**
+ * A DROP TABLE statement
+ */
+export interface DropTableStatement extends StatementLocation {
+  kind: 'DROP TABLE';
+  tables: TableName[];
+}
+
+/**
+ * A RENAME TABLE statement, renaming one or more tables in turn
+ */
+export interface RenameTableStatement extends StatementLocation {
+  kind: 'RENAME TABLE';
+  renames: { from: TableName; to: TableName }[];
+}
+
+/**
+ * Any other statement, e.g. CREATE INDEX or INSERT
+ */
+export interface OtherStatement extends StatementLocation {
+  kind: 'OTHER';
+}
+
+/**
+ * A statement of a migration script
+ */
+export type DdlStatement =
+  | CreateTableStatement
+  | AlterTableStatement
+  | DropTableStatement
+  | RenameTableStatement
+  | OtherStatement;
+
+/**
+ * Keywords after ADD, or starting a CREATE TABLE element, that add an index,
+ * constraint or partition, not a column
+ */
+const NON_COLUMN_KEYWORDS = [
+  'INDEX',
+  'KEY',
+  'PRIMARY',
+  'UNIQUE',
+  'FULLTEXT',
+  'SPATIAL',
+  'CONSTRAINT',
+  'FOREIGN',
+  'CHECK',
+  'PARTITION',
+  'PERIOD',
+  'SYSTEM',
+];
+
+/**
+ * Keywords starting an ALTER TABLE clause that sets a table option or
+ * maintains partitions, leaving the columns alone. Charset and collation
+ * options are not listed, as they change how columns are redefined.
+ */
+const TABLE_OPTION_KEYWORDS = [
+  'ALGORITHM',
+  'LOCK',
+  'ENGINE',
+  'AUTO_INCREMENT',
+  'AVG_ROW_LENGTH',
+  'CHECKSUM',
+  'COMMENT',
+  'COMPRESSION',
+  'CONNECTION',
+  'DELAY_KEY_WRITE',
+  'ENCRYPTION',
+  'KEY_BLOCK_SIZE',
+  'MAX_ROWS',
+  'MIN_ROWS',
+  'PACK_KEYS',
+  'ROW_FORMAT',
+  'STATS_AUTO_RECALC',
+  'STATS_PERSISTENT',
+  'STATS_SAMPLE_PAGES',
+  'TABLESPACE',
+  'FORCE',
+  'ENABLE',
+  'DISABLE',
+  'ORDER',
+  'PARTITION',
+  'ANALYZE',
+  'OPTIMIZE',
+  'REBUILD',
+  'REPAIR',
+  'COALESCE',
+  'REORGANIZE',
+  'EXCHANGE',
+  'TRUNCATE',
+  'REMOVE',
+];
+
+/**
+ * Whether a token can name a table or column
+ */
+function isName(token: SqlToken | undefined): token is SqlToken {
+  return (
+    token !== undefined &&
+    (token.type === 'identifier' || token.type === 'word')
+  );
+}
+
+/**
+ * Text of significant tokens, without the comments between them and with
+ * the whitespace between them collapsed to single spaces
+ */
+function joinTokens(tokens: SqlToken[]): string {
+  return tokens
+    .map((token, index) =>
+      index > 0 && token.start > tokens[index - 1].end
+        ? ` ${token.text}`
+        : token.text,
+    )
+    .join('');
+}
+
+/**
+ * Parse a column definition, `name definition [FIRST | AFTER column]`
+ */
+function parseColumn(tokens: SqlToken[]): ColumnDefinition | null {
+  const [nameToken, ...rest] = tokens;
+  if (!isName(nameToken)) {
+    return null;
+  }
+
+  // The position clause is the first FIRST/AFTER outside parentheses
+  let depth = 0;
+  let positionIndex = -1;
+  for (let i = 0; i < rest.length && positionIndex === -1; i++) {
+    if (isPunctuation(rest[i], '(')) {
+      depth++;
+    } else if (isPunctuation(rest[i], ')')) {
+      depth--;
+    } else if (
+      depth === 0 &&
+      (isKeyword(rest[i], 'FIRST') || isKeyword(rest[i], 'AFTER'))
+    ) {
+      positionIndex = i;
+    }
+  }
+
+  const definitionTokens =
+    positionIndex === -1 ? rest : rest.slice(0, positionIndex);
+  const definitionEnd =
+    definitionTokens.length > 0
+      ? definitionTokens[definitionTokens.length - 1].end
+      : nameToken.end;
+  const lastToken = tokens[tokens.length - 1];
+
+  let position: ColumnPosition | undefined;
+  if (positionIndex !== -1) {
+    const keywordToken = rest[positionIndex];
+    const columnToken = rest[positionIndex + 1];
+    position = isKeyword(keywordToken, 'FIRST')
+      ? { keyword: 'FIRST', start: keywordToken.start, end: keywordToken.end }
+      : {
+          keyword: 'AFTER',
+          ...(isName(columnToken) ? { column: tokenValue(columnToken) } : {}),
+          start: keywordToken.start,
+          end: (columnToken ?? keywordToken).end,
+        };
+  }
+
+  return {
+    name: tokenValue(nameToken),
+    definition: joinTokens(definitionTokens),
+    ...(position ? { position } : {}),
+    start: nameToken.start,
+    end: lastToken.end,
+    definitionEnd,
+  };
+}
+
+/**
+ * Index just past optional keywords at token `index`, e.g. `COLUMN` or
+ * MariaDB's `IF [NOT] EXISTS`
+ */
+function skipKeywords(
+  tokens: SqlToken[],
+  index: number,
+  keywords: string[],
+): number {
+  return keywords.every((keyword, offset) =>
+    isKeyword(tokens[index + offset], keyword),
+  )
+    ? index + keywords.length
+    : index;
+}
+
+/**
+ * Whether the token at `index` names a column, rather than starting an
+ * index, key or constraint. `COLUMN` before it settles the question.
+ */
+function isColumnName(
+  tokens: SqlToken[],
+  index: number,
+  hasColumnKeyword: boolean,
+): boolean {
+  const token = tokens[index];
+  return (
+    isName(token) &&
+    (hasColumnKeyword ||
+      token.type === 'identifier' ||
+      !NON_COLUMN_KEYWORDS.includes(token.text.toUpperCase()))
+  );
+}
+
+/**
+ * Whether the token at `index` starts an index, key, constraint or
+ * partition rather than naming a column
+ */
+function isNonColumnKeyword(
+  tokens: SqlToken[],
+  index: number,
+  hasColumnKeyword: boolean,
+): boolean {
+  const token = tokens[index];
+  return (
+    !hasColumnKeyword &&
+    token?.type === 'word' &&
+    NON_COLUMN_KEYWORDS.includes(token.text.toUpperCase())
+  );
+}
+
+/**
+ * Parse one clause of an ALTER TABLE statement
+ */
+function parseClause(tokens: SqlToken[]): AlterTableClause {
+  const clause: AlterTableClause = {
+    action: tokenValue(tokens[0]).toUpperCase(),
+    columns: [],
+    isColumnList: false,
+    isRecognized: false,
+    start: tokens[0].start,
+    end: tokens[tokens.length - 1].end,
+  };
+
+  const hasColumnKeyword = isKeyword(tokens[1], 'COLUMN');
+  let i = hasColumnKeyword ? 2 : 1;
+
+  switch (clause.action) {
+    case 'ADD': {
+      // MariaDB: ADD COLUMN IF NOT EXISTS
+      i = skipKeywords(tokens, i, ['IF', 'NOT', 'EXISTS']);
+
+      if (isPunctuation(tokens[i], '(')) {
+        // The list runs up to the closing parenthesis, the last clause token
+        const listTokens = tokens.slice(i + 1, -1);
+        clause.isColumnList = true;
+        for (const columnTokens of splitTokens(listTokens, ',')) {
+          const column = parseColumn(columnTokens);
+          if (column) {
+            clause.columns.push(column);
+          }
+        }
+      } else if (isColumnName(tokens, i, hasColumnKeyword)) {
+        const column = parseColumn(tokens.slice(i));
+        if (column) {
+          clause.columns.push(column);
+        }
+      }
+      clause.isRecognized =
+        clause.columns.length > 0 ||
+        isNonColumnKeyword(tokens, i, hasColumnKeyword);
+      break;
+    }
+
+    case 'DROP':
+      i = skipKeywords(tokens, i, ['IF', 'EXISTS']);
+      if (isColumnName(tokens, i, hasColumnKeyword)) {
+        clause.targetColumn = tokenValue(tokens[i]);
+      }
+      clause.isRecognized =
+        clause.targetColumn !== undefined ||
+        isNonColumnKeyword(tokens, i, hasColumnKeyword);
+      break;
+
+    case 'ALTER':
+      if (!isColumnName(tokens, i, hasColumnKeyword)) {
+        // ALTER INDEX, ALTER CHECK and ALTER CONSTRAINT
+        clause.isRecognized = isNonColumnKeyword(tokens, i, hasColumnKeyword);
+        break;
+      }
+      clause.targetColumn = tokenValue(tokens[i]);
+      if (
+        isKeyword(tokens[i + 1], 'SET') &&
+        isKeyword(tokens[i + 2], 'DEFAULT')
+      ) {
+        clause.columnDefault = joinTokens(tokens.slice(i + 3));
+      } else if (
+        isKeyword(tokens[i + 1], 'DROP') &&
+        isKeyword(tokens[i + 2], 'DEFAULT')
+      ) {
+        clause.columnDefault = null;
+      }
+      clause.isRecognized =
+        clause.columnDefault !== undefined && clause.columnDefault !== '';
+      break;
+
+    case 'MODIFY':
+    case 'CHANGE': {
+      i = skipKeywords(tokens, i, ['IF', 'EXISTS']);
+      if (!isName(tokens[i])) {
+        break;
+      }
+      clause.targetColumn = tokenValue(tokens[i]);
+      // CHANGE names the column twice, old name first
+      const redefinedColumn = parseColumn(
+        tokens.slice(clause.action === 'CHANGE' ? i + 1 : i),
+      );
+      if (redefinedColumn) {
+        clause.redefinedColumn = redefinedColumn;
+      }
+      clause.isRecognized = redefinedColumn !== null;
+      break;
+    }
+
+    case 'RENAME': {
+      if (hasColumnKeyword) {
+        if (
+          isName(tokens[2]) &&
+          isKeyword(tokens[3], 'TO') &&
+          isName(tokens[4])
+        ) {
+          clause.targetColumn = tokenValue(tokens[2]);
+          clause.newColumnName = tokenValue(tokens[4]);
+          clause.isRecognized = true;
+        }
+        break;
+      }
+
+      // RENAME INDEX and RENAME KEY leave the table name alone
+      if (isKeyword(tokens[1], 'INDEX') || isKeyword(tokens[1], 'KEY')) {
+        clause.isRecognized = true;
+        break;
+      }
+      const table = readTableName(
+        tokens,
+        isKeyword(tokens[1], 'TO') || isKeyword(tokens[1], 'AS') ? 2 : 1,
+      );
+      if (table && table.next === tokens.length) {
+        clause.newTable = toTableName(table);
+        clause.isRecognized = true;
+      }
+      break;
+    }
+
+    default:
+      clause.isRecognized = TABLE_OPTION_KEYWORDS.includes(clause.action);
+  }
+
+  return clause;
+}
+
+/**
+ * Read a table name, optionally qualified with its schema, at token `index`
+ */
+function readTableName(
+  tokens: SqlToken[],
+  index: number,
+): (TableName & { next: number }) | null {
+  if (!isName(tokens[index])) {
+    return null;
+  }
+
+  if (isPunctuation(tokens[index + 1], '.') && isName(tokens[index + 2])) {
+    return {
+      tableName: tokenValue(tokens[index + 2]),
+      schemaName: tokenValue(tokens[index]),
+      next: index + 3,
+    };
+  }
+
+  return { tableName: tokenValue(tokens[index]), next: index + 1 };
+}
+
+/**
+ * The table name read by {@link readTableName}, without its end
+ */
+function toTableName(table: TableName): TableName {
+  return {
+    tableName: table.tableName,
+    ...(table.schemaName ? { schemaName: table.schemaName } : {}),
+  };
+}
+
+/**
+ * Split a script into the significant tokens of each statement
+ */
+function splitStatementTokens(sql: string): SqlToken[][] {
+  const tokens = tokenizeSql(sql).filter(isSignificant);
+  return splitTokens(tokens, ';').filter(
+    (statementTokens) => statementTokens.length > 0,
+  );
+}
+
+/**
+ * Parse the ALTER TABLE statement made of the given significant tokens
+ */
+function parseAlterTable(
+  tokens: SqlToken[],
+  location: StatementLocation,
+): AlterTableStatement | null {
+  let i = 0;
+  if (!isKeyword(tokens[i++], 'ALTER')) {
+    return null;
+  }
+  // MariaDB: ALTER [ONLINE] [IGNORE] TABLE [IF EXISTS]
+  while (isKeyword(tokens[i], 'ONLINE') || isKeyword(tokens[i], 'IGNORE')) {
+    i++;
+  }
+  if (!isKeyword(tokens[i++], 'TABLE')) {
+    return null;
+  }
+  if (isKeyword(tokens[i], 'IF') && isKeyword(tokens[i + 1], 'EXISTS')) {
+    i += 2;
+  }
+
+  const table = readTableName(tokens, i);
+  if (!table) {
+    return null;
+  }
+
+  return {
+    kind: 'ALTER TABLE',
+    ...toTableName(table),
+    clauses: splitTokens(tokens.slice(table.next), ',')
+      .filter((clauseTokens) => clauseTokens.length > 0)
+      .map((clauseTokens) => parseClause(clauseTokens)),
+    ...location,
+  };
+}
+
+/**
+ * Parse the CREATE TABLE statement made of the given significant tokens
+ */
+function parseCreateTable(
+  tokens: SqlToken[],
+  location: StatementLocation,
+): CreateTableStatement | null {
+  let i = 0;
+  if (!isKeyword(tokens[i++], 'CREATE')) {
+    return null;
+  }
+  if (isKeyword(tokens[i], 'TEMPORARY')) {
+    i++;
+  }
+  if (!isKeyword(tokens[i++], 'TABLE')) {
+    return null;
+  }
+  if (
+    isKeyword(tokens[i], 'IF') &&
+    isKeyword(tokens[i + 1], 'NOT') &&
+    isKeyword(tokens[i + 2], 'EXISTS')
+  ) {
+    i += 3;
+  }
+
+  // CREATE TABLE ... LIKE and CREATE TABLE ... AS SELECT have no body
+  const table = readTableName(tokens, i);
+  if (!table || !isPunctuation(tokens[table.next], '(')) {
+    return null;
+  }
+
+  // The body runs up to the matching closing parenthesis
+  let depth = 0;
+  let bodyEnd = table.next;
+  for (; bodyEnd < tokens.length; bodyEnd++) {
+    if (isPunctuation(tokens[bodyEnd], '(')) {
+      depth++;
+    } else if (isPunctuation(tokens[bodyEnd], ')') && --depth === 0) {
+      break;
+    }
+  }
+
+  const elements = splitTokens(tokens.slice(table.next + 1, bodyEnd), ',')
+    .filter((elementTokens) => elementTokens.length > 0)
+    .map((elementTokens): TableElement => {
+      const [first, ...rest] = elementTokens;
+      const isColumn =
+        first.type === 'identifier' ||
+        (isName(first) &&
+          !NON_COLUMN_KEYWORDS.includes(first.text.toUpperCase()));
+
+      return {
+        ...(isColumn
+          ? { columnName: tokenValue(first), definition: joinTokens(rest) }
+          : {}),
+        start: first.start,
+        end: elementTokens[elementTokens.length - 1].end,
+      };
+    });
+
+  return {
+    kind: 'CREATE TABLE',
+    ...toTableName(table),
+    elements,
+    ...location,
+  };
+}
+
+/**
+ * Parse the DROP TABLE statement made of the given significant tokens
+ */
+function parseDropTable(
+  tokens: SqlToken[],
+  location: StatementLocation,
+): DropTableStatement | null {
+  let i = 0;
+  if (!isKeyword(tokens[i++], 'DROP')) {
+    return null;
+  }
+  if (isKeyword(tokens[i], 'TEMPORARY')) {
+    i++;
+  }
+  if (!isKeyword(tokens[i++], 'TABLE')) {
+    return null;
+  }
+  i = skipKeywords(tokens, i, ['IF', 'EXISTS']);
+
+  const tables = splitTokens(tokens.slice(i), ',').flatMap((nameTokens) => {
+    const table = readTableName(nameTokens, 0);
+    return table ? [toTableName(table)] : [];
+  });
+
+  return { kind: 'DROP TABLE', tables, ...location };
+}
+
+/**
+ * Parse the RENAME TABLE statement made of the given significant tokens
+ */
+function parseRenameTable(
+  tokens: SqlToken[],
+  location: StatementLocation,
+): RenameTableStatement | null {
+  if (!isKeyword(tokens[0], 'RENAME') || !isKeyword(tokens[1], 'TABLE')) {
+    return null;
+  }
+
+  const renames = splitTokens(tokens.slice(2), ',').flatMap((renameTokens) => {
+    const from = readTableName(renameTokens, 0);
+    const to =
+      from && isKeyword(renameTokens[from.next], 'TO')
+        ? readTableName(renameTokens, from.next + 1)
+        : null;
+    return from && to ? [{ from: toTableName(from), to: toTableName(to) }] : [];
+  });
+
+  return { kind: 'RENAME TABLE', renames, ...location };
+}
+
+/**
+ * Parse the statements of a MySQL/MariaDB migration script. CREATE, ALTER,
+ * DROP and RENAME TABLE are read, anything else is reported as OTHER.
+ * Ranges refer to the original script, so it can be edited by position
+ * without touching comments or formatting.
+ */
+export function parseDdlStatements(sql: string): DdlStatement[] {
+  let line = 1;
+  let lineOffset = 0;
+
+  return splitStatementTokens(sql).map((tokens): DdlStatement => {
+    const { start } = tokens[0];
+    line += sql.slice(lineOffset, start).split('\n').length - 1;
+    lineOffset = start;
+
+    const location = { start, end: tokens[tokens.length - 1].end, line };
+    return (
+      parseCreateTable(tokens, location) ??
+      parseAlterTable(tokens, location) ??
+      parseDropTable(tokens, location) ??
+      parseRenameTable(tokens, location) ?? { kind: 'OTHER', ...location }
+    );
+  });
+}
+
+/**
+ * Parse the ALTER TABLE statements of a migration script, skipping other
+ * statements
+ */
+export function parseAlterTableStatements(sql: string): AlterTableStatement[] {
+  return parseDdlStatements(sql).filter(
+    (statement): statement is AlterTableStatement =>
+      statement.kind === 'ALTER TABLE',
+  );
+}
+
+/**
+ * Parse the CREATE TABLE statements of a migration script, with the range
+ * of each column, key and constraint of their bodies
+ */
+export function parseCreateTableStatements(
+  sql: string,
+): CreateTableStatement[] {
+  return parseDdlStatements(sql).filter(
+    (statement): statement is CreateTableStatement =>
+      statement.kind === 'CREATE TABLE',
+  );
+}
+
+/**
+ * Parse the column definitions out of a `SHOW CREATE TABLE` statement.
+ *
+ * Returns a map from column name to everything after the name, as the
+ * server printed it (type, charset, collation, default, comment, ...).
+ */
+export function parseCreateTableColumns(
+  createTableSql: string,
+): Map<string, string> {
+  const [statement] = parseCreateTableStatements(createTableSql);
+  const columns = new Map<string, string>();
+
+  for (const { columnName, definition } of statement?.elements ?? []) {
+    if (columnName !== undefined && definition !== undefined) {
+      columns.set(columnName, definition);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Index just past the value starting at token `index`: a parenthesized
+ * expression, or a token together with the tokens directly attached to it
+ * (`-1`, `CURRENT_TIMESTAMP(3)`, `_utf8mb4'a'`)
+ */
+function skipValue(tokens: SqlToken[], index: number): number {
+  let next = index;
+  do {
+    if (isPunctuation(tokens[next], '(')) {
+      let depth = 0;
+      for (; next < tokens.length; next++) {
+        if (isPunctuation(tokens[next], '(')) {
+          depth++;
+        } else if (isPunctuation(tokens[next], ')') && --depth === 0) {
+          break;
+        }
+      }
+    }
+    next++;
+  } while (next < tokens.length && tokens[next].start === tokens[next - 1].end);
+
+  return Math.min(next, tokens.length);
+}
+
+/**
+ * Find the DEFAULT clause of a column definition, from the keyword to the
+ * end of its value
+ */
+export function findDefaultClause(
+  definition: string,
+): { start: number; end: number } | null {
+  const tokens = tokenizeSql(definition).filter(isSignificant);
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (isPunctuation(tokens[i], '(')) {
+      depth++;
+    } else if (isPunctuation(tokens[i], ')')) {
+      depth--;
+    } else if (
+      depth === 0 &&
+      isKeyword(tokens[i], 'DEFAULT') &&
+      i + 1 < tokens.length
+    ) {
+      const next = skipValue(tokens, i + 1);
+      return { start: tokens[i].start, end: tokens[next - 1].end };
+    }
+  }
+
+  return null;
+}
@@ -3,4 +3,6 @@ export { ColumnReorderGenerator } from './column-reorder';
 export { DatabaseConnector } from './database-connector';
 export { MigrationFixer } from './migration-fixer';
 export { MigrationCreator } from './migration-creator';
+export { MigrationReplayer } from './migration-replayer';
+export { MigrationAuditor } from './migration-auditor';
 export { ConfigReader } from './config-reader';
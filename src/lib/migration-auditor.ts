@@ -0,0 +1,140 @@
+import { MigrationReplayer } from './migration-replayer';
+import { SchemaReader } from './schema-reader';
+import {
+  type ColumnOrderDrift,
+  type MigrationAuditorOptions,
+  type MigrationAuditResult,
+  type PrismaModel,
+} from '../types';
+
+/**
+ * Column order a table is expected to have, from its model's field order
+ */
+interface ExpectedTable {
+  model: PrismaModel;
+  columns: string[];
+}
+
+/**
+ * Migration auditor for finding where the migration history drifted away
+ * from the column order of the Prisma schema
+ */
+export class MigrationAuditor {
+  private readonly replayer: MigrationReplayer;
+  private readonly schemaReader: SchemaReader;
+  private readonly options: MigrationAuditorOptions;
+
+  constructor(
+    migrationsDir?: string,
+    schemaPath?: string,
+    options: MigrationAuditorOptions = {},
+  ) {
+    this.replayer = new MigrationReplayer(migrationsDir);
+    this.schemaReader = new SchemaReader(schemaPath);
+    this.options = options;
+  }
+
+  /**
+   * Replay every migration in order and report, for each table, the
+   * statement that first left its columns out of the schema field order
+   */
+  public async audit(): Promise<MigrationAuditResult> {
+    const analysis = await this.schemaReader.getSchemaAnalysis();
+
+    // Without the schema's models there is nothing to compare against
+    if (!analysis.isSupported || analysis.errors.length > 0) {
+      throw new Error(
+        analysis.errors.join('\n') ||
+          `Database provider "${analysis.provider}" is not supported for migration audits`,
+      );
+    }
+
+    const includeIgnored = this.options.includeIgnored === true;
+
+    // Views are not tables, @@ignore models only count when asked for
+    const expectedTables = new Map<string, ExpectedTable>();
+    for (const model of analysis.models) {
+      if (model.isView || (model.isIgnored && !includeIgnored)) {
+        continue;
+      }
+      expectedTables.set(this.getTableKey(model.tableName, model.schema), {
+        model,
+        columns: SchemaReader.getColumnFields(model, includeIgnored).map(
+          (field) => field.columnName,
+        ),
+      });
+    }
+
+    const drifts = new Map<string, ColumnOrderDrift>();
+    let statementCount = 0;
+
+    this.replayer.walk((step) => {
+      statementCount++;
+
+      for (const table of step.tables) {
+        const key = this.getTableKey(table.name, table.schema);
+        const expected = expectedTables.get(key);
+        if (!expected) {
+          continue;
+        }
+
+        const actualOrder = table.columns.map((column) => column.name);
+        const inOrder = this.isInSchemaOrder(actualOrder, expected.columns);
+        const drift = drifts.get(key);
+
+        if (!drift && !inOrder) {
+          drifts.set(key, {
+            model: expected.model.name,
+            table: table.name,
+            ...(table.schema ? { schema: table.schema } : {}),
+            migration: step.migration,
+            file: step.file,
+            line: step.line,
+            statement: step.statement,
+            actualOrder,
+            expectedOrder: expected.columns,
+            resolved: false,
+          });
+        } else if (drift) {
+          // Remember whether a later migration put the table back in order
+          drift.resolved = inOrder;
+        }
+      }
+    });
+
+    return {
+      migrationsChecked: this.replayer.getMigrationFiles().length,
+      statementsChecked: statementCount,
+      drifts: [...drifts.values()],
+    };
+  }
+
+  /**
+   * Whether the columns shared by the table and the model are in the
+   * model's field order. Columns only one side knows about are ignored:
+   * they were not added yet, or are dropped further on.
+   */
+  private isInSchemaOrder(
+    actualOrder: string[],
+    expectedOrder: string[],
+  ): boolean {
+    const expected = expectedOrder.map((column) => column.toLowerCase());
+    const positions = actualOrder
+      .map((column) => expected.indexOf(column.toLowerCase()))
+      .filter((position) => position !== -1);
+
+    return positions.every(
+      (position, index) => index === 0 || positions[index - 1] < position,
+    );
+  }
+
+  /**
+   * Key of a table, unique across schemas (MySQL table names are compared
+   * case-insensitively here)
+   */
+  private getTableKey(tableName: string, schemaName?: string): string {
+    return (
+      schemaName ? `${schemaName}.${tableName}` : tableName
+    ).toLowerCase();
+  }
+}
@@ -1,7 +1,56 @@
-import { readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
-import { join, resolve } from 'path';
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import {
+  parseAlterTableStatements,
+  parseCreateTableStatements,
+  type ColumnDefinition,
+  type AlterTableClause,
+  type AlterTableStatement,
+  type CreateTableStatement,
+  type TableElement,
+} from './ddl-parser';
+import { DatabaseConnector } from './database-connector';
 import { SchemaReader } from './schema-reader';
-import { type MigrationFixResult } from '../types';
+import { applySqlEdits, type SqlEdit } from './sql-tokenizer';
+import { quoteIdentifier } from './sql-utils';
+import {
+  type MigrationFixerOptions,
+  type MigrationFixResult,
+  type MigrationSqlFix,
+  type PrismaModel,
+  type SupportedProvider,
+  type TableReference,
+  type TableSize,
+} from '../types';
+
+/**
+ * Edits fixing one statement, and the table's columns after it
+ */
+interface StatementFix {
+  edits: SqlEdit[];
+  changes: string[];
+  columns: string[];
+  /** Whether columns of ADD clauses were given a new position */
+  positionsAddedColumns?: boolean;
+  /** Whether columns of MODIFY or CHANGE clauses were given a new position */
+  positionsRedefinedColumns?: boolean;
+}
+
+/**
+ * First MySQL version that adds columns at any position with
+ * ALGORITHM=INSTANT, earlier versions only add them last
+ */
+const INSTANT_ADD_COLUMN_VERSION = [8, 0, 29];
 
 /**
  * Migration fixer for analyzing and fixing column order issues in Prisma migration files
@@ -9,11 +58,29 @@ import { type MigrationFixResult } from '../types';
 export class MigrationFixer {
   private readonly migrationsDir: string;
   private schemaReader: SchemaReader;
+  private readonly options: MigrationFixerOptions;
+  private serverVersion?: string;
+  private serverVersionDetected = false;
+  /** Connection shared by every database lookup, opened on first use */
+  private connector: DatabaseConnector | null = null;
+  /** Why tables cannot be altered instantly, by table key */
+  private readonly instantAlterBlockers = new Map<string, string | null>();
+  /** Models by table name, and the schema graph models they come from */
+  private modelsByTable: {
+    models: readonly PrismaModel[];
+    tables: Map<string, PrismaModel[]>;
+  } | null = null;
 
-  constructor(migrationsDir?: string, schemaPath?: string) {
+  constructor(
+    migrationsDir?: string,
+    schemaPath?: string,
+    options: MigrationFixerOptions = {},
+  ) {
     this.migrationsDir =
       migrationsDir || join(process.cwd(), 'prisma', 'migrations');
     this.schemaReader = new SchemaReader(schemaPath);
+    this.options = options;
+    this.serverVersion = options.serverVersion;
   }
 
   /**
@@ -67,6 +134,232 @@ export class MigrationFixer {
     }
   }
 
+  /**
+   * Get every migration file, oldest first (the order Prisma applies them)
+   */
+  public getMigrations(): string[] {
+    const migrationsPath = resolve(this.migrationsDir);
+
+    if (!existsSync(migrationsPath)) {
+      return [];
+    }
+
+    return readdirSync(migrationsPath)
+      .sort()
+      .map((entry) => join(migrationsPath, entry, 'migration.sql'))
+      .filter((migrationFile) => existsSync(migrationFile));
+  }
+
+  /**
+   * Get the migration file of the migration with the given directory name
+   */
+  public findMigration(name: string): string {
+    const migrationFile = this.getMigrations().find(
+      (file) => this.getMigrationName(file) === name,
+    );
+
+    if (!migrationFile) {
+      throw new Error(`Migration "${name}" not found in ${this.migrationsDir}`);
+    }
+
+    return migrationFile;
+  }
+
+  /**
+   * Get the named migration and every migration after it
+   */
+  public getMigrationsSince(name: string): string[] {
+    const migrations = this.getMigrations();
+    return migrations.slice(migrations.indexOf(this.findMigration(name)));
+  }
+
+  /**
+   * Get the migrations that have not been applied yet. Applied migrations
+   * are read from the database's `_prisma_migrations` table unless a list
+   * of their names is given.
+   */
+  public async getPendingMigrations(
+    appliedMigrations?: string[],
+  ): Promise<string[]> {
+    const applied = new Set(
+      appliedMigrations ?? (await this.getAppliedMigrations()),
+    );
+    return this.getMigrations().filter(
+      (file) => !applied.has(this.getMigrationName(file)),
+    );
+  }
+
+  /**
+   * Read the names of the applied migrations from the schema's database
+   */
+  public async getAppliedMigrations(): Promise<string[]> {
+    const connector = await this.connect();
+    return connector.getAppliedMigrations();
+  }
+
+  /**
+   * Read the version of the schema's database server and fix migrations
+   * for it from then on
+   */
+  public async detectServerVersion(): Promise<string> {
+    const connector = await this.connect();
+    this.serverVersion = await connector.getServerVersion();
+    return this.serverVersion;
+  }
+
+  /**
+   * Read the size of tables from the schema's database
+   */
+  public async getTableSizes(tables: TableReference[]): Promise<TableSize[]> {
+    const connector = await this.connect();
+    return connector.getTableSizes(tables);
+  }
+
+  /**
+   * Store the checksum of a migration file in `_prisma_migrations`, after
+   * the file of an applied migration has been fixed
+   */
+  public async updateChecksum(migrationFile: string): Promise<string> {
+    const checksum = MigrationFixer.getChecksum(
+      readFileSync(migrationFile, 'utf-8'),
+    );
+
+    const connector = await this.connect();
+    await connector.updateMigrationChecksum(
+      this.getMigrationName(migrationFile),
+      checksum,
+    );
+
+    return checksum;
+  }
+
+  /**
+   * Checksum Prisma records for a migration script: the hex SHA-256 of its
+   * content
+   */
+  public static getChecksum(sql: string): string {
+    return createHash('sha256').update(sql, 'utf-8').digest('hex');
+  }
+
+  /**
+   * Close the database connection, if one was opened
+   */
+  public async disconnect(): Promise<void> {
+    const { connector } = this;
+    this.connector = null;
+    await connector?.disconnect();
+  }
+
+  /**
+   * Connect to the schema's database, reusing the connection once open
+   */
+  private async connect(): Promise<DatabaseConnector> {
+    if (this.connector) {
+      return this.connector;
+    }
+
+    const analysis = await this.schemaReader.getSchemaAnalysis();
+
+    if (!analysis.isSupported) {
+      throw new Error(
+        `Database provider "${analysis.provider}" is not supported for migration fixes`,
+      );
+    }
+
+    const connector = new DatabaseConnector(
+      analysis.provider as SupportedProvider,
+      await this.schemaReader.getDatabaseUrl(),
+    );
+    await connector.connect();
+    this.connector = connector;
+
+    return connector;
+  }
+
+  /**
+   * Why MySQL cannot alter a table of the schema's database with
+   * ALGORITHM=INSTANT (a FULLTEXT index, ROW_FORMAT=COMPRESSED or 64 row
+   * versions), or null when nothing stops it
+   */
+  public async getInstantAlterBlocker(
+    table: TableReference,
+  ): Promise<string | null> {
+    const connector = await this.connect();
+    return connector.getInstantAlterBlocker(table);
+  }
+
+  /**
+   * Why a table cannot be altered instantly, looked up once per table. Only
+   * read over a connection that is already open: a version given without
+   * one may be for a database this run cannot reach. A table that cannot be
+   * checked (e.g. without the PROCESS privilege INNODB_TABLES needs) is not
+   * given INSTANT either.
+   */
+  private async findInstantAlterBlocker(
+    tableKey: string,
+    table: TableReference,
+  ): Promise<string | null> {
+    if (!this.connector) {
+      return null;
+    }
+
+    if (!this.instantAlterBlockers.has(tableKey)) {
+      let blocker: string | null;
+      try {
+        blocker = await this.getInstantAlterBlocker(table);
+      } catch (error) {
+        blocker = `its storage could not be read: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`;
+      }
+      this.instantAlterBlockers.set(tableKey, blocker);
+    }
+
+    return this.instantAlterBlockers.get(tableKey) ?? null;
+  }
+
+  /**
+   * Version of the server the fixes are for, when known
+   */
+  public getServerVersion(): string | undefined {
+    return this.serverVersion;
+  }
+
+  /**
+   * Version of the server the fixes are for, looked up the first time it is
+   * needed when none was given
+   */
+  private async resolveServerVersion(): Promise<string | undefined> {
+    if (
+      this.serverVersion === undefined &&
+      !this.serverVersionDetected &&
+      this.options.detectServerVersion
+    ) {
+      this.serverVersionDetected = true;
+      this.serverVersion = await this.options.detectServerVersion();
+    }
+
+    return this.serverVersion;
+  }
+
+  /**
+   * Name of a migration, i.e. the directory of its migration file
+   */
+  public getMigrationName(migrationFile: string): string {
+    return basename(dirname(migrationFile));
+  }
+
+  /**
+   * Whether a file is the migration.sql of a migration in the migrations
+   * directory, and so may be recorded in `_prisma_migrations`
+   */
+  public isMigrationFile(file: string): boolean {
+    return (
+      basename(file) === 'migration.sql' &&
+      resolve(dirname(dirname(file))) === resolve(this.migrationsDir)
+    );
+  }
+
   /**
    * Fix column order issues in the latest migration file
    */
@@ -77,8 +370,17 @@ export class MigrationFixer {
       return null;
     }
 
+    return this.fixMigration(latestMigration);
+  }
+
+  /**
+   * Fix column order issues in a migration file
+   */
+  public async fixMigration(
+    migrationFile: string,
+  ): Promise<MigrationFixResult | null> {
     try {
-      const originalSql = readFileSync(latestMigration, 'utf-8');
+      const originalSql = readFileSync(migrationFile, 'utf-8');
       const fixedResult = await this.fixMigrationSql(originalSql);
 
       if (!fixedResult) {
@@ -86,10 +388,13 @@ export class MigrationFixer {
       }
 
       return {
-        migrationFile: latestMigration,
+        migrationFile,
         originalSql: originalSql,
         fixedSql: fixedResult.sql,
         changes: fixedResult.changes,
+        ...(fixedResult.rebuildTables.length > 0
+          ? { rebuildTables: fixedResult.rebuildTables }
+          : {}),
       };
     } catch (error) {
       throw new Error(
@@ -101,13 +406,12 @@ export class MigrationFixer {
   }
 
   /**
-   * Analyze and fix SQL migration content
+   * Fix the column order of a migration script given as a string, such as
+   * `prisma migrate diff --script` output. Returns null when the script
+   * needs no fixes.
    */
-  private async fixMigrationSql(
-    sql: string,
-  ): Promise<{ sql: string; changes: string[] } | null> {
+  public async fixMigrationSql(sql: string): Promise<MigrationSqlFix | null> {
     const changes: string[] = [];
-    let fixedSql = sql;
 
     // Get schema analysis to understand correct field order
     const analysis = await this.schemaReader.getSchemaAnalysis();
@@ -118,136 +422,632 @@ export class MigrationFixer {
       );
     }
 
-    // Extract all ADD COLUMN statements
-    const addColumnStatements = this.extractAddColumnInfo(sql);
+    // Extract all CREATE TABLE statements and ADD COLUMN clauses
+    const createTableStatements = parseCreateTableStatements(sql);
+    const alterTableStatements = parseAlterTableStatements(sql);
 
-    if (addColumnStatements.length === 0) {
-      return null; // No ADD COLUMN statements found
+    if (
+      createTableStatements.length === 0 &&
+      alterTableStatements.length === 0
+    ) {
+      return null; // No CREATE TABLE or ALTER TABLE statements found
     }
 
-    // Group statements by ALTER TABLE (same fullMatch)
-    const alterTableGroups = new Map<string, typeof addColumnStatements>();
-    for (const statement of addColumnStatements) {
-      const key = statement.fullMatch;
-      if (!alterTableGroups.has(key)) {
-        alterTableGroups.set(key, []);
+    // Edit the script by token position, leaving everything else untouched
+    const edits: SqlEdit[] = [];
+
+    // Columns of each table as the migration leaves them so far, so every
+    // AFTER names a column that exists at that point of the migration
+    const tableStates = new Map<string, string[]>();
+    // Tables created by the migration are empty, so altering them is cheap
+    const createdTables = new Set<string>();
+    const rebuildTables = new Map<string, TableReference>();
+    const statements = [...createTableStatements, ...alterTableStatements].sort(
+      (a, b) => a.start - b.start,
+    );
+
+    for (const statement of statements) {
+      const model = this.findModel(
+        analysis.models,
+        statement.tableName,
+        statement.schemaName,
+      );
+      const columnOrder = this.getColumnOrder(model);
+
+      if (!columnOrder) {
+        continue; // Table not in schema, skip
       }
-      alterTableGroups.get(key)!.push(statement);
-    }
 
-    // Process each ALTER TABLE statement
-    for (const [originalAlterTable, statements] of alterTableGroups) {
-      let modifiedAlterTable = originalAlterTable;
-      const alterTableChanges: string[] = [];
+      const tableKey = this.getTableKey(
+        statement.tableName,
+        statement.schemaName,
+      );
+      const fix =
+        statement.kind === 'CREATE TABLE'
+          ? this.fixCreateTable(sql, statement, columnOrder)
+          : this.fixAlterTable(
+              sql,
+              statement,
+              columnOrder,
+              tableStates.get(tableKey) ??
+                this.assumeTableColumns(
+                  columnOrder,
+                  alterTableStatements.filter(
+                    (other) =>
+                      this.getTableKey(other.tableName, other.schemaName) ===
+                      tableKey,
+                  ),
+                ),
+            );
 
-      for (const statement of statements) {
-        const { tableName, columnName, definition } = statement;
+      tableStates.set(tableKey, fix.columns);
+      edits.push(...fix.edits);
+      changes.push(...fix.changes);
 
-        // Validate column exists in schema and get its position
-        const validation = await this.validateColumn(tableName, columnName);
+      if (statement.kind === 'CREATE TABLE') {
+        createdTables.add(tableKey);
+      } else if (
+        (fix.positionsAddedColumns || fix.positionsRedefinedColumns) &&
+        !createdTables.has(tableKey) &&
+        !this.requestsInstantAlgorithm(sql, statement)
+      ) {
+        if (fix.positionsRedefinedColumns) {
+          // Moving an existing column is never instant
+          rebuildTables.set(tableKey, {
+            tableName: statement.tableName,
+            schemaName: statement.schemaName,
+          });
+          continue;
+        }
 
-        if (!validation.exists) {
-          continue; // Column not found in schema, skip
+        // Without a version, neither an algorithm nor a warning is added
+        const serverVersion = await this.resolveServerVersion();
+
+        if (serverVersion === undefined) {
+          continue;
         }
 
-        const { position, afterColumn } = validation;
+        const table = {
+          tableName: statement.tableName,
+          schemaName: statement.schemaName,
+        };
 
-        // Check if this column is already at the end (last position)
-        const model = analysis.models.find(
-          (m) => m.name.toLowerCase() === tableName.toLowerCase(),
-        );
+        if (
+          this.supportsInstantAddColumn(serverVersion) &&
+          this.isInstantAlter(statement) &&
+          !(await this.findInstantAlterBlocker(tableKey, table))
+        ) {
+          // Added after the position edits, which may insert at the same spot
+          edits.push({
+            start: statement.end,
+            end: statement.end,
+            text: ', ALGORITHM=INSTANT',
+          });
+          changes.push(
+            `Added ALGORITHM=INSTANT to ALTER TABLE ${statement.tableName}`,
+          );
+        } else {
+          rebuildTables.set(tableKey, table);
+        }
+      }
+    }
+
+    return changes.length > 0
+      ? {
+          sql: applySqlEdits(sql, edits),
+          changes,
+          rebuildTables: [...rebuildTables.values()],
+        }
+      : null;
+  }
+
+  /**
+   * Reorder the columns of a CREATE TABLE body into schema field order. Each
+   * column moves with its whole definition, while keys, constraints,
+   * comments and columns the schema does not know keep their place.
+   */
+  private fixCreateTable(
+    sql: string,
+    statement: CreateTableStatement,
+    columnOrder: string[],
+  ): StatementFix {
+    const position = (element: TableElement) =>
+      this.getColumnPosition(columnOrder, element.columnName ?? '');
+
+    const slots = statement.elements.filter(
+      (element) => position(element) !== -1,
+    );
+    const ordered = [...slots].sort((a, b) => position(a) - position(b));
+    const columns = statement.elements.flatMap((element) => {
+      const slot = slots.indexOf(element);
+      const { columnName } = slot === -1 ? element : ordered[slot];
+      return columnName ? [columnName] : [];
+    });
 
-        if (!model) continue;
+    if (ordered.every((element, index) => element === slots[index])) {
+      return { edits: [], changes: [], columns };
+    }
 
-        const totalNonRelationFields = model.fields.filter(
-          (field) => !field.isRelation,
-        ).length;
-        const isLastColumn = position === totalNonRelationFields - 1;
+    return {
+      edits: slots
+        .map((slot, index) => ({ slot, element: ordered[index] }))
+        .filter(({ slot, element }) => slot !== element)
+        .map(({ slot, element }) => ({
+          start: slot.start,
+          end: slot.end,
+          text: sql.slice(element.start, element.end),
+        })),
+      changes: [
+        `Fixed column order in CREATE TABLE ${statement.tableName} (${ordered
+          .map((element) => element.columnName)
+          .join(', ')})`,
+      ],
+      columns,
+    };
+  }
 
-        // Check if the ADD COLUMN already has FIRST or AFTER clause
-        const hasPositioning = /\s+(FIRST|AFTER\s+`?\w+`?)\s*$/i.test(
-          definition,
-        );
+  /**
+   * Position the columns an ALTER TABLE statement adds. The statement is
+   * replayed clause by clause on the table's columns, so each column goes
+   * after the closest preceding schema column that exists at that point.
+   * When a column's schema predecessor is only added by a later clause,
+   * the ADD clauses are reordered into schema order instead.
+   */
+  private fixAlterTable(
+    sql: string,
+    statement: AlterTableStatement,
+    columnOrder: string[],
+    initialColumns: string[],
+  ): StatementFix {
+    const columns = [...initialColumns];
+    const changes: string[] = [];
+    const position = (clause: AlterTableClause) =>
+      this.getColumnPosition(columnOrder, clause.columns[0].name);
+
+    // Single-column ADD clauses of schema columns can trade places
+    const addClauses = statement.clauses.filter(
+      (clause) =>
+        clause.action === 'ADD' &&
+        !clause.isColumnList &&
+        clause.columns.length === 1 &&
+        position(clause) !== -1,
+    );
+    const targetColumns = statement.clauses.flatMap((clause) =>
+      clause.targetColumn ? [clause.targetColumn] : [],
+    );
+    const needsReorder =
+      !addClauses.some((clause) =>
+        targetColumns.some((column) =>
+          this.isSameColumn(column, clause.columns[0].name),
+        ),
+      ) &&
+      addClauses.some((clause, index) =>
+        addClauses
+          .slice(index + 1)
+          .some((later) => position(later) === position(clause) - 1),
+      );
+    const orderedAdds = needsReorder
+      ? [...addClauses].sort((a, b) => position(a) - position(b))
+      : addClauses;
+
+    if (needsReorder) {
+      changes.push(
+        `Reordered ADD COLUMN clauses for ${statement.tableName} (${orderedAdds
+          .map((clause) => clause.columns[0].name)
+          .join(', ')})`,
+      );
+    }
+
+    // Position clause each misplaced column should get
+    const fixedPositions = new Map<ColumnDefinition, string>();
+
+    for (const clause of statement.clauses.map((original) => {
+      const slot = addClauses.indexOf(original);
+      return slot === -1 ? original : orderedAdds[slot];
+    })) {
+      const definitions =
+        clause.action === 'ADD'
+          ? clause.columns
+          : clause.redefinedColumn
+          ? [clause.redefinedColumn]
+          : [];
+
+      if (definitions.length === 0) {
+        this.replayColumnChange(columns, clause);
+        continue;
+      }
+
+      for (const column of definitions) {
+        // Without a position ADD puts the column at the end, while MODIFY
+        // and CHANGE leave it where it is
+        let index = columns.length;
+        if (clause.action !== 'ADD') {
+          const current = columns.findIndex((existing) =>
+            this.isSameColumn(existing, clause.targetColumn),
+          );
+          if (current !== -1) {
+            columns.splice(current, 1);
+            index = current;
+          }
+        }
 
-        if (isLastColumn && !hasPositioning) {
-          // Column is supposed to be at the end and has no positioning clause
-          // This is fine, MySQL will add it at the end by default
+        if (this.getColumnPosition(columnOrder, column.name) === -1) {
+          // Column not found in schema, keep it where the migration puts it
+          if (column.position) {
+            this.insertColumn(
+              columns,
+              column.name,
+              column.position.column ?? null,
+            );
+          } else {
+            columns.splice(index, 0, column.name);
+          }
           continue;
         }
 
-        // If the column already has the correct positioning, skip it
-        if (hasPositioning) {
-          const expectedPosition =
-            position === 0 ? 'FIRST' : `AFTER \`${afterColumn}\``;
-          const currentPositionMatch = definition.match(
-            /\s+(FIRST|AFTER\s+`?(\w+)`?)\s*$/i,
+        const anchor = this.findAnchor(columnOrder, columns, column.name);
+        const expectedPosition =
+          anchor === null ? 'FIRST' : `AFTER ${quoteIdentifier(anchor)}`;
+        const isPlaced = column.position
+          ? anchor === null
+            ? column.position.keyword === 'FIRST'
+            : column.position.keyword === 'AFTER' &&
+              this.isSameColumn(column.position.column, anchor)
+          : anchor === null
+          ? index === 0
+          : this.isSameColumn(columns[index - 1], anchor);
+
+        if (!isPlaced) {
+          fixedPositions.set(column, expectedPosition);
+          changes.push(
+            `Fixed column position for ${statement.tableName}.${column.name} (${expectedPosition})`,
           );
+        }
+
+        this.insertColumn(columns, column.name, anchor);
+      }
+    }
+
+    const edits: SqlEdit[] = [];
 
-          if (currentPositionMatch) {
-            const currentPosition = currentPositionMatch[1].trim();
-            const normalizedCurrent = currentPosition.toUpperCase();
-            const normalizedExpected = expectedPosition.toUpperCase();
+    for (const clause of statement.clauses) {
+      const slot = addClauses.indexOf(clause);
+      const placed = slot === -1 ? clause : orderedAdds[slot];
 
-            if (normalizedCurrent === normalizedExpected) {
-              continue; // Already correctly positioned
-            }
+      if (placed === clause) {
+        edits.push(...this.getPositionEdits(clause, fixedPositions));
+        continue;
+      }
+
+      // A moved clause is rewritten whole, its position fix included
+      edits.push({
+        start: clause.start,
+        end: clause.end,
+        text: applySqlEdits(
+          sql.slice(placed.start, placed.end),
+          this.getPositionEdits(placed, fixedPositions).map((edit) => ({
+            ...edit,
+            start: edit.start - placed.start,
+            end: edit.end - placed.start,
+          })),
+        ),
+      });
+    }
+
+    return {
+      edits,
+      changes,
+      columns,
+      positionsAddedColumns: statement.clauses.some(
+        (clause) =>
+          clause.action === 'ADD' &&
+          clause.columns.some((column) => fixedPositions.has(column)),
+      ),
+      positionsRedefinedColumns: statement.clauses.some(
+        (clause) =>
+          clause.redefinedColumn !== undefined &&
+          fixedPositions.has(clause.redefinedColumn),
+      ),
+    };
+  }
+
+  /**
+   * Edits giving the columns of an ADD, MODIFY or CHANGE clause their fixed
+   * positions
+   */
+  private getPositionEdits(
+    clause: AlterTableClause,
+    fixedPositions: Map<ColumnDefinition, string>,
+  ): SqlEdit[] {
+    const fixedColumns = [
+      ...clause.columns,
+      ...(clause.redefinedColumn ? [clause.redefinedColumn] : []),
+    ].filter((column) => fixedPositions.has(column));
+
+    if (fixedColumns.length === 0) {
+      return [];
+    }
+
+    // ADD (a ..., b ...) cannot place columns, so split it into clauses
+    if (clause.isColumnList) {
+      return [
+        {
+          start: clause.start,
+          end: clause.end,
+          text: clause.columns
+            .map((column) =>
+              this.formatAddColumn(column, fixedPositions.get(column)),
+            )
+            .join(', '),
+        },
+      ];
+    }
+
+    return fixedColumns.map((column) => {
+      const fixedPosition = fixedPositions.get(column) ?? '';
+      return column.position
+        ? {
+            start: column.position.start,
+            end: column.position.end,
+            text: fixedPosition,
           }
-        }
+        : {
+            start: column.definitionEnd,
+            end: column.definitionEnd,
+            text: ` ${fixedPosition}`,
+          };
+    });
+  }
 
-        // Remove any existing positioning from the definition
-        const cleanDefinition = definition
-          .replace(/\s+(FIRST|AFTER\s+`?\w+`?)\s*$/i, '')
-          .trim();
-
-        // Generate the positioning clause
-        let positioningClause = '';
-        if (position === 0) {
-          positioningClause = ' FIRST';
-        } else if (afterColumn) {
-          positioningClause = ` AFTER \`${afterColumn}\``;
-        }
+  /**
+   * Whether a server adds columns at any position with ALGORITHM=INSTANT:
+   * MySQL 8.0.29 and later, but not MariaDB
+   */
+  private supportsInstantAddColumn(serverVersion: string): boolean {
+    const match = /^(\d+)\.(\d+)\.(\d+)/.exec(serverVersion);
 
-        // Create the search pattern for the original ADD COLUMN clause
-        const originalAddColumn = `ADD COLUMN \`${columnName}\` ${definition}`;
-        const newAddColumn = `ADD COLUMN \`${columnName}\` ${cleanDefinition}${positioningClause}`;
+    if (!match || /mariadb/i.test(serverVersion)) {
+      return false;
+    }
 
-        // Replace the specific ADD COLUMN clause in the ALTER TABLE statement
-        modifiedAlterTable = modifiedAlterTable.replace(
-          originalAddColumn,
-          newAddColumn,
-        );
+    for (const [index, minimum] of INSTANT_ADD_COLUMN_VERSION.entries()) {
+      const part = Number(match[index + 1]);
+      if (part !== minimum) {
+        return part > minimum;
+      }
+    }
 
-        const positionDesc =
-          position === 0 ? 'FIRST' : `AFTER \`${afterColumn}\``;
-        alterTableChanges.push(
-          `Fixed column position for ${tableName}.${columnName} (${positionDesc})`,
-        );
+    return true;
+  }
+
+  /**
+   * Whether an ALTER TABLE already asks for ALGORITHM=INSTANT, so MySQL fails
+   * it rather than rebuild the table
+   */
+  private requestsInstantAlgorithm(
+    sql: string,
+    statement: AlterTableStatement,
+  ): boolean {
+    return statement.clauses.some(
+      (clause) =>
+        clause.action === 'ALGORITHM' &&
+        /\bINSTANT\b/i.test(sql.slice(clause.start, clause.end)),
+    );
+  }
+
+  /**
+   * Whether MySQL can run every clause of an ALTER TABLE instantly: adding
+   * plain columns, dropping and renaming columns. A statement that already
+   * names an ALGORITHM or LOCK is left as it is.
+   */
+  private isInstantAlter(statement: AlterTableStatement): boolean {
+    return statement.clauses.every((clause) => {
+      switch (clause.action) {
+        case 'ADD':
+          return (
+            clause.columns.length > 0 &&
+            clause.columns.every(
+              (column) =>
+                !/\b(AUTO_INCREMENT|STORED|PRIMARY|UNIQUE|REFERENCES)\b/i.test(
+                  column.definition,
+                ),
+            )
+          );
+        case 'DROP':
+          return clause.targetColumn !== undefined;
+        case 'RENAME':
+          return clause.newColumnName !== undefined;
+        default:
+          return false;
       }
+    });
+  }
 
-      // Replace the original ALTER TABLE statement with the modified one
-      if (alterTableChanges.length > 0) {
-        fixedSql = fixedSql.replace(originalAlterTable, modifiedAlterTable);
-        changes.push(...alterTableChanges);
+  /**
+   * Columns a table is assumed to have before a migration that only alters
+   * it: the schema columns the migration does not add, in schema order. A
+   * column the migration renames sits where its new name belongs, and other
+   * columns it drops or changes come last.
+   */
+  private assumeTableColumns(
+    columnOrder: string[],
+    statements: AlterTableStatement[],
+  ): string[] {
+    const clauses = statements.flatMap((statement) => statement.clauses);
+    const renamedFrom = new Map<string, string>();
+    for (const clause of clauses) {
+      const newName = clause.newColumnName ?? clause.redefinedColumn?.name;
+      if (
+        clause.targetColumn &&
+        newName &&
+        !this.isSameColumn(newName, clause.targetColumn)
+      ) {
+        renamedFrom.set(newName.toLowerCase(), clause.targetColumn);
       }
     }
+    const addedColumns = clauses.flatMap((clause) =>
+      clause.columns.map((column) => column.name),
+    );
 
-    return changes.length > 0 ? { sql: fixedSql, changes } : null;
+    const columns = columnOrder
+      .filter(
+        (column) =>
+          !addedColumns.some((added) => this.isSameColumn(added, column)),
+      )
+      .map((column) => renamedFrom.get(column.toLowerCase()) ?? column);
+    for (const { targetColumn } of clauses) {
+      if (
+        targetColumn &&
+        !columns.some((column) => this.isSameColumn(column, targetColumn))
+      ) {
+        columns.push(targetColumn);
+      }
+    }
+
+    return columns;
   }
 
   /**
-   * Apply fixes to the latest migration file
+   * Replay a DROP or RENAME COLUMN clause on a table's columns
    */
-  public async applyFixes(): Promise<boolean> {
-    const result = await this.fixLatestMigration();
+  private replayColumnChange(
+    columns: string[],
+    clause: AlterTableClause,
+  ): void {
+    const index = columns.findIndex((column) =>
+      this.isSameColumn(column, clause.targetColumn),
+    );
+
+    if (index === -1) {
+      return;
+    }
+
+    if (clause.action === 'DROP') {
+      columns.splice(index, 1);
+    } else if (clause.newColumnName) {
+      columns[index] = clause.newColumnName;
+    }
+  }
+
+  /**
+   * The column a schema column should be added after: the closest preceding
+   * schema column that exists in the table, or null for FIRST
+   */
+  private findAnchor(
+    columnOrder: string[],
+    columns: string[],
+    columnName: string,
+  ): string | null {
+    const position = this.getColumnPosition(columnOrder, columnName);
+
+    for (let index = position - 1; index >= 0; index--) {
+      const existing = columns.find((column) =>
+        this.isSameColumn(column, columnOrder[index]),
+      );
+      if (existing) {
+        return columnOrder[index];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Insert a column after another one, or first when there is none
+   */
+  private insertColumn(
+    columns: string[],
+    columnName: string,
+    afterColumn: string | null,
+  ): void {
+    const index =
+      afterColumn === null
+        ? -1
+        : columns.findIndex((column) => this.isSameColumn(column, afterColumn));
+    columns.splice(index + 1, 0, columnName);
+  }
+
+  /**
+   * Position of a column in the schema column order, -1 when not there
+   */
+  private getColumnPosition(columnOrder: string[], columnName: string): number {
+    return columnOrder.findIndex((column) =>
+      this.isSameColumn(column, columnName),
+    );
+  }
+
+  /**
+   * Whether two column names refer to the same column (MySQL column names
+   * are case-insensitive)
+   */
+  private isSameColumn(a: string | undefined, b: string | undefined): boolean {
+    return (
+      a !== undefined && b !== undefined && a.toLowerCase() === b.toLowerCase()
+    );
+  }
+
+  /**
+   * Key of a table, unique across schemas
+   */
+  private getTableKey(tableName: string, schemaName?: string): string {
+    return (
+      schemaName ? `${schemaName}.${tableName}` : tableName
+    ).toLowerCase();
+  }
+
+  /**
+   * Apply fixes to a migration file, the latest one by default. A result of
+   * `fixMigration` is written as it is, without analyzing the file again.
+   *
+   * The original is saved as a backup for `restoreBackup`, and the file is
+   * replaced atomically, only when it has not changed since the analysis.
+   */
+  public async applyFixes(
+    target?: string | MigrationFixResult,
+  ): Promise<boolean> {
+    const result =
+      typeof target === 'object'
+        ? target
+        : target
+        ? await this.fixMigration(target)
+        : await this.fixLatestMigration();
 
     if (!result) {
       return false; // No fixes needed
     }
 
+    const backupFile = this.getBackupFile(result.migrationFile);
+    const checksumFile = this.getBackupChecksumFile(result.migrationFile);
+    let backupWritten = false;
+
     try {
-      writeFileSync(result.migrationFile, result.fixedSql, 'utf-8');
+      if (readFileSync(result.migrationFile, 'utf-8') !== result.originalSql) {
+        throw new Error(
+          `${result.migrationFile} has changed since it was analyzed, run the command again`,
+        );
+      }
+
+      // Overwriting the backup would lose the original of the earlier fixes
+      if (existsSync(backupFile)) {
+        throw new Error(
+          `${backupFile} already exists, restore it with --undo or remove it first`,
+        );
+      }
+
+      writeFileSync(backupFile, result.originalSql, 'utf-8');
+      backupWritten = true;
+      writeFileSync(
+        checksumFile,
+        MigrationFixer.getChecksum(result.fixedSql),
+        'utf-8',
+      );
+      this.replaceFile(result.migrationFile, result.fixedSql);
       return true;
     } catch (error) {
+      if (backupWritten) {
+        rmSync(backupFile, { force: true });
+        rmSync(checksumFile, { force: true });
+      }
       throw new Error(
         `Failed to write fixed migration: ${
           error instanceof Error ? error.message : 'Unknown error'
@@ -257,122 +1057,140 @@ export class MigrationFixer {
   }
 
   /**
-   * Extract table and column information from ADD COLUMN statements
+   * Restore a migration file from the backup `applyFixes` saved, and remove
+   * the backup. Returns false when there is no backup. A file that changed
+   * since the fixes were written is not restored, so later edits are kept.
    */
-  private extractAddColumnInfo(sql: string): Array<{
-    tableName: string;
-    columnName: string;
-    definition: string;
-    fullMatch: string;
-    startIndex: number;
-    endIndex: number;
-  }> {
-    const results: Array<{
-      tableName: string;
-      columnName: string;
-      definition: string;
-      fullMatch: string;
-      startIndex: number;
-      endIndex: number;
-    }> = [];
-
-    // Find ALTER TABLE statements (including multi-line ones)
-    const alterTableRegex = /ALTER\s+TABLE\s+`?(\w+)`?\s+(.*?);/gis;
-    let match;
-
-    while ((match = alterTableRegex.exec(sql)) !== null) {
-      const [fullMatch, tableName, alterContent] = match;
-      const startIndex = match.index;
-      const endIndex = match.index + fullMatch.length;
+  public restoreBackup(migrationFile: string): boolean {
+    const backupFile = this.getBackupFile(migrationFile);
+    const checksumFile = this.getBackupChecksumFile(migrationFile);
 
-      // Check if this ALTER TABLE contains ADD COLUMN statements
-      if (!/ADD\s+COLUMN/i.test(alterContent)) {
-        continue;
-      }
+    if (!existsSync(backupFile)) {
+      return false;
+    }
 
-      // Parse individual ADD COLUMN statements within this ALTER TABLE
-      const addColumnMatches = this.parseAddColumns(alterContent);
-
-      for (const addColumn of addColumnMatches) {
-        results.push({
-          tableName,
-          columnName: addColumn.columnName,
-          definition: addColumn.definition,
-          fullMatch: fullMatch,
-          startIndex: startIndex,
-          endIndex: endIndex,
-        });
-      }
+    if (
+      !existsSync(checksumFile) ||
+      readFileSync(checksumFile, 'utf-8').trim() !==
+        MigrationFixer.getChecksum(readFileSync(migrationFile, 'utf-8'))
+    ) {
+      throw new Error(
+        `${migrationFile} has changed since the fixes were applied, restore it from ${backupFile} by hand`,
+      );
     }
 
-    return results;
+    try {
+      this.replaceFile(migrationFile, readFileSync(backupFile, 'utf-8'));
+      unlinkSync(backupFile);
+      unlinkSync(checksumFile);
+      return true;
+    } catch (error) {
+      throw new Error(
+        `Failed to restore migration: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
   }
 
   /**
-   * Parse ADD COLUMN statements from ALTER TABLE content
+   * Backup of a migration file, saved next to it. Prisma only reads
+   * `migration.sql`, so the backup does not affect migrations.
    */
-  private parseAddColumns(alterContent: string): Array<{
-    columnName: string;
-    definition: string;
-  }> {
-    const results: Array<{ columnName: string; definition: string }> = [];
+  public getBackupFile(migrationFile: string): string {
+    return `${migrationFile}.bak`;
+  }
 
-    // Split by ADD COLUMN but be careful about commas and positioning clauses
-    const parts = alterContent.split(/,\s*(?=ADD\s+COLUMN)/i);
+  /**
+   * Checksum of the fixed file `applyFixes` wrote, saved next to the backup
+   * so `restoreBackup` can tell whether the file changed since
+   */
+  private getBackupChecksumFile(migrationFile: string): string {
+    return `${this.getBackupFile(migrationFile)}.sha256`;
+  }
 
-    for (const part of parts) {
-      const trimmedPart = part.trim();
-      const addColumnMatch = trimmedPart.match(
-        /ADD\s+COLUMN\s+`?(\w+)`?\s+(.+?)(?=\s*(?:,\s*ADD\s+COLUMN|$))/is,
-      );
+  /**
+   * Replace a file's content through a temporary file and a rename, so
+   * readers never see a partly written file
+   */
+  private replaceFile(file: string, content: string): void {
+    const tempFile = join(
+      dirname(file),
+      `.${basename(file)}.${process.pid}.tmp`,
+    );
 
-      if (addColumnMatch) {
-        const [, columnName, definition] = addColumnMatch;
-        results.push({
-          columnName,
-          definition: definition.trim(),
-        });
-      }
+    try {
+      writeFileSync(tempFile, content, 'utf-8');
+      renameSync(tempFile, file);
+    } catch (error) {
+      rmSync(tempFile, { force: true });
+      throw error;
     }
+  }
 
-    return results;
+  /**
+   * Format an ADD COLUMN clause for a column, with an optional position
+   */
+  private formatAddColumn(column: ColumnDefinition, position?: string): string {
+    const clause = `ADD COLUMN ${quoteIdentifier(column.name)} ${
+      column.definition
+    }`;
+    return position ? `${clause} ${position}` : clause;
   }
 
   /**
-   * Validate that the column exists in the schema
+   * Find the model an ALTER TABLE statement targets, by its table name
+   * (@@map). A schema-qualified statement only matches a model in that
+   * schema (@@schema).
    */
-  private async validateColumn(
+  private findModel(
+    models: readonly PrismaModel[],
     tableName: string,
-    columnName: string,
-  ): Promise<{
-    exists: boolean;
-    position: number;
-    afterColumn?: string;
-  }> {
-    const analysis = await this.schemaReader.getSchemaAnalysis();
-
-    const model = analysis.models.find(
-      (m) => m.name.toLowerCase() === tableName.toLowerCase(),
-    );
+    schemaName?: string,
+  ): PrismaModel | undefined {
+    return this.getModelsByTable(models)
+      .get(tableName.toLowerCase())
+      ?.find(
+        (model) => !schemaName || !model.schema || model.schema === schemaName,
+      );
+  }
 
-    if (!model) {
-      return { exists: false, position: -1 };
+  /**
+   * Models by lower-cased table name, in schema order, built once from the
+   * schema graph
+   */
+  private getModelsByTable(
+    models: readonly PrismaModel[],
+  ): Map<string, PrismaModel[]> {
+    if (this.modelsByTable?.models !== models) {
+      const tables = new Map<string, PrismaModel[]>();
+      for (const model of models) {
+        const key = model.tableName.toLowerCase();
+        tables.set(key, [...(tables.get(key) ?? []), model]);
+      }
+      this.modelsByTable = { models, tables };
     }
 
-    const fieldOrder = model.fields
-      .filter((field) => !field.isRelation)
-      .map((field) => field.name);
-
-    const position = fieldOrder.indexOf(columnName);
+    return this.modelsByTable.tables;
+  }
 
-    if (position === -1) {
-      return { exists: false, position: -1 };
+  /**
+   * Column names of a model in schema field order, or null when the model's
+   * table is not fixed
+   */
+  private getColumnOrder(model: PrismaModel | undefined): string[] | null {
+    // Views are not altered, @@ignore models only when asked for
+    if (
+      !model ||
+      model.isView ||
+      (model.isIgnored && !this.options.includeIgnored)
+    ) {
+      return null;
     }
 
-    return {
-      exists: true,
-      position,
-      afterColumn: position > 0 ? fieldOrder[position - 1] : undefined,
-    };
+    return SchemaReader.getColumnFields(
+      model,
+      this.options.includeIgnored === true,
+    ).map((field) => field.columnName);
   }
 }
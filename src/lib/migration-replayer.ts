@@ -0,0 +1,611 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import {
+  findDefaultClause,
+  parseDdlStatements,
+  type AlterTableClause,
+  type ColumnDefinition,
+  type ColumnPosition,
+  type DdlStatement,
+  type TableName,
+} from './ddl-parser';
+import {
+  isKeyword,
+  isPunctuation,
+  isSignificant,
+  tokenizeSql,
+} from './sql-tokenizer';
+import {
+  type ColumnMetadata,
+  type MigrationReplayStep,
+  type TableMetadata,
+  type TableMetadataSource,
+} from '../types';
+
+/**
+ * A column of a replayed table, with its definition as written in the
+ * migration (type, nullability, default, ...)
+ */
+interface ReplayedColumn {
+  name: string;
+  definition: string;
+  /**
+   * Where the history changes the column with a clause the replayer does
+   * not understand, so the definition may be out of date
+   */
+  unknownChange?: string;
+}
+
+/**
+ * A table as it looks after replaying the migration history
+ */
+interface ReplayedTable {
+  name: string;
+  schema?: string;
+  columns: ReplayedColumn[];
+}
+
+/**
+ * Replays the SQL of a Prisma migrations directory into simulated table
+ * state, so table metadata can be read without a database connection.
+ *
+ * Understands CREATE/DROP/RENAME TABLE and ALTER TABLE with ADD, DROP,
+ * MODIFY, CHANGE, RENAME COLUMN (including FIRST/AFTER) and ALTER COLUMN
+ * SET/DROP DEFAULT. Other statements do not affect columns and are skipped.
+ * Columns an unknown ALTER TABLE clause may have changed are still listed,
+ * but their definitions are not handed out.
+ */
+export class MigrationReplayer implements TableMetadataSource {
+  private readonly migrationsDir: string;
+  private tables: Map<string, ReplayedTable> | null = null;
+
+  constructor(migrationsDir?: string) {
+    this.migrationsDir =
+      migrationsDir || join(process.cwd(), 'prisma', 'migrations');
+  }
+
+  /**
+   * Get the migration files in the order Prisma applies them
+   */
+  public getMigrationFiles(): string[] {
+    const migrationsPath = resolve(this.migrationsDir);
+
+    if (!existsSync(migrationsPath)) {
+      throw new Error(`Migrations directory not found: ${migrationsPath}`);
+    }
+
+    return readdirSync(migrationsPath)
+      .filter((entry) => statSync(join(migrationsPath, entry)).isDirectory())
+      .sort()
+      .map((entry) => join(migrationsPath, entry, 'migration.sql'))
+      .filter((file) => existsSync(file));
+  }
+
+  /**
+   * Replay the whole migration history. The result is cached, so later
+   * calls return the same state.
+   */
+  public replay(): TableMetadata[] {
+    return [...this.loadTables().values()].map((table) =>
+      this.toMetadata(table),
+    );
+  }
+
+  /**
+   * Replay the migration history from scratch, reporting every statement
+   * together with the tables it created or altered
+   */
+  public walk(onStep: (step: MigrationReplayStep) => void): void {
+    const tables = new Map<string, ReplayedTable>();
+
+    for (const file of this.getMigrationFiles()) {
+      this.replaySql(tables, readFileSync(file, 'utf-8'), file, onStep);
+    }
+  }
+
+  /**
+   * Replay the migration history (there is no connection to open)
+   */
+  public async connect(): Promise<void> {
+    this.loadTables();
+  }
+
+  /**
+   * Nothing to close, the replayed state lives in memory
+   */
+  public async disconnect(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Get column metadata of the replayed tables, or of every table of the
+   * schema when no table names are given. Tables that were never created
+   * (or were dropped) are left out of the result.
+   */
+  public async getTablesMetadata(
+    tableNames?: string[],
+    schemaName?: string,
+  ): Promise<TableMetadata[]> {
+    const tables = this.loadTables();
+    const names =
+      tableNames ||
+      [...tables.values()]
+        .filter((table) => table.schema === schemaName)
+        .map((table) => table.name);
+
+    const results: TableMetadata[] = [];
+    for (const name of names) {
+      const table = this.findTable(tables, name, schemaName);
+      if (table) {
+        results.push({ ...this.toMetadata(table), name });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the column definitions of a replayed table, keyed by column name.
+   * Fails when one of the requested columns (all by default) was changed by
+   * a clause the replayer does not understand, as redefining it from a
+   * stale definition would silently revert that change.
+   */
+  public async getColumnDefinitions(
+    tableName: string,
+    schemaName?: string,
+    columnNames?: string[],
+  ): Promise<Map<string, string>> {
+    const table = this.findTable(this.loadTables(), tableName, schemaName);
+    const unknown = (table?.columns || []).find(
+      (column) =>
+        column.unknownChange !== undefined &&
+        (!columnNames ||
+          columnNames.some((name) => this.sameName(name, column.name))),
+    );
+
+    if (unknown) {
+      throw new Error(
+        `Cannot redefine column "${unknown.name}" of "${tableName}" offline: ` +
+          `${unknown.unknownChange} changes it in a way that cannot be replayed`,
+      );
+    }
+
+    return new Map(
+      (table?.columns || []).map((column) => [column.name, column.definition]),
+    );
+  }
+
+  /**
+   * Replay the migration files once and keep the resulting table state
+   */
+  private loadTables(): Map<string, ReplayedTable> {
+    if (!this.tables) {
+      const tables = new Map<string, ReplayedTable>();
+
+      for (const file of this.getMigrationFiles()) {
+        this.replaySql(tables, readFileSync(file, 'utf-8'), file);
+      }
+
+      this.tables = tables;
+    }
+
+    return this.tables;
+  }
+
+  /**
+   * Apply every statement of a migration script to the table state
+   */
+  private replaySql(
+    tables: Map<string, ReplayedTable>,
+    sql: string,
+    file: string,
+    onStep?: (step: MigrationReplayStep) => void,
+  ): void {
+    for (const statement of parseDdlStatements(sql)) {
+      let touchedTables: ReplayedTable[];
+      try {
+        touchedTables = this.replayStatement(
+          tables,
+          statement,
+          `${file}:${statement.line}`,
+        );
+      } catch (error) {
+        throw new Error(
+          `Failed to replay ${file}:${statement.line}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        );
+      }
+
+      onStep?.({
+        migration: basename(dirname(file)),
+        file,
+        line: statement.line,
+        statement: sql.slice(statement.start, statement.end),
+        tables: touchedTables.map((table) => ({
+          ...this.toMetadata(table),
+          ...(table.schema ? { schema: table.schema } : {}),
+        })),
+      });
+    }
+  }
+
+  /**
+   * Apply a single statement to the table state. Returns the tables the
+   * statement created or altered.
+   */
+  private replayStatement(
+    tables: Map<string, ReplayedTable>,
+    statement: DdlStatement,
+    source: string,
+  ): ReplayedTable[] {
+    switch (statement.kind) {
+      case 'CREATE TABLE': {
+        const table: ReplayedTable = {
+          name: statement.tableName,
+          schema: statement.schemaName,
+          columns: statement.elements.flatMap(({ columnName, definition }) =>
+            columnName !== undefined
+              ? [{ name: columnName, definition: definition ?? '' }]
+              : [],
+          ),
+        };
+        this.setTable(tables, table);
+        return [table];
+      }
+
+      case 'DROP TABLE':
+        for (const target of statement.tables) {
+          this.deleteTable(tables, target.tableName, target.schemaName);
+        }
+        return [];
+
+      case 'RENAME TABLE':
+        return statement.renames.map(({ from, to }) =>
+          this.renameTable(tables, from, to),
+        );
+
+      case 'ALTER TABLE': {
+        // Tables the history never created are reported as missing later on
+        let table = this.findTable(
+          tables,
+          statement.tableName,
+          statement.schemaName,
+        );
+        if (!table) {
+          return [];
+        }
+
+        for (const clause of statement.clauses) {
+          table = this.replayAlterClause(tables, table, clause, source);
+        }
+        return [table];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Apply one clause of an ALTER TABLE statement. Returns the table the
+   * following clauses apply to, which changes on RENAME TO.
+   */
+  private replayAlterClause(
+    tables: Map<string, ReplayedTable>,
+    table: ReplayedTable,
+    clause: AlterTableClause,
+    source: string,
+  ): ReplayedTable {
+    const { targetColumn } = clause;
+
+    if (!clause.isRecognized) {
+      // Without a column name, the clause may have changed any column
+      for (const column of table.columns) {
+        if (
+          targetColumn === undefined ||
+          this.sameName(column.name, targetColumn)
+        ) {
+          column.unknownChange = source;
+        }
+      }
+      return table;
+    }
+
+    if (clause.newTable) {
+      return this.renameTable(
+        tables,
+        { tableName: table.name, schemaName: table.schema },
+        clause.newTable,
+      );
+    }
+
+    const column = table.columns.find(
+      (existing) =>
+        targetColumn !== undefined &&
+        this.sameName(existing.name, targetColumn),
+    );
+
+    switch (clause.action) {
+      case 'ADD':
+        for (const added of clause.columns) {
+          // MariaDB's ADD COLUMN IF NOT EXISTS skips existing columns
+          if (
+            !table.columns.some((existing) =>
+              this.sameName(existing.name, added.name),
+            )
+          ) {
+            this.placeColumn(
+              table,
+              { name: added.name, definition: added.definition },
+              added.position,
+            );
+          }
+        }
+        break;
+
+      case 'DROP':
+        table.columns = table.columns.filter((existing) => existing !== column);
+        break;
+
+      case 'MODIFY':
+      case 'CHANGE':
+        if (targetColumn !== undefined && clause.redefinedColumn) {
+          this.redefineColumn(table, targetColumn, clause.redefinedColumn);
+        }
+        break;
+
+      case 'ALTER':
+        if (column && clause.columnDefault !== undefined) {
+          column.definition = this.setDefault(
+            column.definition,
+            clause.columnDefault,
+          );
+        }
+        break;
+
+      case 'RENAME':
+        if (column && clause.newColumnName !== undefined) {
+          column.name = clause.newColumnName;
+        }
+        break;
+    }
+
+    return table;
+  }
+
+  /**
+   * Replace the DEFAULT clause of a column definition, or drop it when the
+   * new default is null
+   */
+  private setDefault(definition: string, value: string | null): string {
+    const clause = findDefaultClause(definition);
+    const parts = clause
+      ? [definition.slice(0, clause.start), definition.slice(clause.end)]
+      : [definition];
+    if (value !== null) {
+      parts.splice(1, 0, `DEFAULT ${value}`);
+    }
+
+    return parts
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  /**
+   * Replace a column definition (MODIFY/CHANGE), moving it when the new
+   * definition ends in FIRST or AFTER
+   */
+  private redefineColumn(
+    table: ReplayedTable,
+    fromName: string,
+    column: ColumnDefinition,
+  ): void {
+    const index = table.columns.findIndex((existing) =>
+      this.sameName(existing.name, fromName),
+    );
+
+    if (index === -1) {
+      throw new Error(`Column "${fromName}" not found in "${table.name}"`);
+    }
+
+    const redefined = { name: column.name, definition: column.definition };
+    if (!column.position) {
+      table.columns[index] = redefined;
+      return;
+    }
+
+    table.columns.splice(index, 1);
+    this.placeColumn(table, redefined, column.position);
+  }
+
+  /**
+   * Insert a column at the given place, or at the end without one
+   */
+  private placeColumn(
+    table: ReplayedTable,
+    column: ReplayedColumn,
+    position?: ColumnPosition,
+  ): void {
+    if (position?.keyword === 'FIRST') {
+      table.columns.unshift(column);
+      return;
+    }
+
+    if (position?.keyword === 'AFTER') {
+      const anchor = position.column ?? '';
+      const index = table.columns.findIndex((existing) =>
+        this.sameName(existing.name, anchor),
+      );
+      if (index === -1) {
+        throw new Error(`Column "${anchor}" not found in "${table.name}"`);
+      }
+      table.columns.splice(index + 1, 0, column);
+      return;
+    }
+
+    table.columns.push(column);
+  }
+
+  /**
+   * Convert a replayed table into the metadata the reorder generator reads
+   */
+  private toMetadata(table: ReplayedTable): TableMetadata {
+    return {
+      name: table.name,
+      columns: table.columns.map((column, index) =>
+        this.toColumnMetadata(column, index),
+      ),
+    };
+  }
+
+  /**
+   * Derive column metadata from a column definition
+   */
+  private toColumnMetadata(
+    column: ReplayedColumn,
+    index: number,
+  ): ColumnMetadata {
+    const { definition } = column;
+    const generation = this.parseGeneration(definition);
+    const isAutoIncrement = /\bAUTO_INCREMENT\b/i.test(definition);
+    const isInvisible = /\bINVISIBLE\b/i.test(definition);
+    const defaultValue = definition.match(
+      /\bDEFAULT\s+('(?:[^'\\]|\\.|'')*'|\S+)/i,
+    );
+
+    return {
+      name: column.name,
+      type: definition,
+      nullable: !/\bNOT\s+NULL\b/i.test(definition),
+      defaultValue: defaultValue
+        ? defaultValue[1].replace(/^'(.*)'$/s, '$1')
+        : null,
+      isAutoIncrement,
+      isPrimaryKey: /\bPRIMARY\s+KEY\b/i.test(definition),
+      isUnique: /\bUNIQUE\b/i.test(definition),
+      extra: [
+        isAutoIncrement ? 'auto_increment' : '',
+        generation ? `${generation.type} GENERATED` : '',
+        isInvisible ? 'INVISIBLE' : '',
+      ]
+        .filter(Boolean)
+        .join(' '),
+      position: index + 1,
+      generationExpression: generation?.expression ?? null,
+      generationType: generation?.type ?? null,
+      isInvisible,
+    };
+  }
+
+  /**
+   * Read the expression of a generated column definition
+   * (`[GENERATED ALWAYS] AS (expr) [VIRTUAL|STORED|PERSISTENT]`)
+   */
+  private parseGeneration(
+    definition: string,
+  ): { expression: string; type: 'VIRTUAL' | 'STORED' } | null {
+    const tokens = tokenizeSql(definition).filter(isSignificant);
+    const open =
+      tokens.findIndex(
+        (token, index) =>
+          isKeyword(token, 'AS') && isPunctuation(tokens[index + 1], '('),
+      ) + 1;
+    if (open === 0) {
+      return null;
+    }
+
+    // The expression runs up to the matching closing parenthesis
+    let depth = 0;
+    let close = open;
+    for (; close < tokens.length; close++) {
+      if (isPunctuation(tokens[close], '(')) {
+        depth++;
+      } else if (isPunctuation(tokens[close], ')') && --depth === 0) {
+        break;
+      }
+    }
+    if (close === tokens.length) {
+      return null;
+    }
+
+    const after = tokens[close + 1];
+    return {
+      expression: definition
+        .slice(tokens[open].end, tokens[close].start)
+        .trim(),
+      type:
+        isKeyword(after, 'STORED') || isKeyword(after, 'PERSISTENT')
+          ? 'STORED'
+          : 'VIRTUAL',
+    };
+  }
+
+  /**
+   * Key of a table in the replayed state, unique across schemas
+   */
+  private getTableKey(tableName: string, schemaName?: string): string {
+    return schemaName ? `${schemaName}.${tableName}` : tableName;
+  }
+
+  /**
+   * Find a table by name, falling back to a case-insensitive match
+   */
+  private findTable(
+    tables: Map<string, ReplayedTable>,
+    tableName: string,
+    schemaName?: string,
+  ): ReplayedTable | undefined {
+    return (
+      tables.get(this.getTableKey(tableName, schemaName)) ||
+      [...tables.values()].find(
+        (table) =>
+          table.schema === schemaName && this.sameName(table.name, tableName),
+      )
+    );
+  }
+
+  private setTable(
+    tables: Map<string, ReplayedTable>,
+    table: ReplayedTable,
+  ): void {
+    tables.set(this.getTableKey(table.name, table.schema), table);
+  }
+
+  private deleteTable(
+    tables: Map<string, ReplayedTable>,
+    tableName: string,
+    schemaName?: string,
+  ): void {
+    const table = this.findTable(tables, tableName, schemaName);
+    if (table) {
+      tables.delete(this.getTableKey(table.name, table.schema));
+    }
+  }
+
+  private renameTable(
+    tables: Map<string, ReplayedTable>,
+    from: TableName,
+    to: TableName,
+  ): ReplayedTable {
+    const table = this.findTable(tables, from.tableName, from.schemaName);
+    if (!table) {
+      throw new Error(`RENAME of unknown table "${from.tableName}"`);
+    }
+
+    this.deleteTable(tables, table.name, table.schema);
+    table.name = to.tableName;
+    table.schema = to.schemaName ?? from.schemaName;
+    this.setTable(tables, table);
+
+    return table;
+  }
+
+  /**
+   * MySQL column names are case-insensitive
+   */
+  private sameName(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+}
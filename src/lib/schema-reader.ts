@@ -1,8 +1,10 @@
-import { getSchema } from '@mrleebo/prisma-ast';
-import { readFileSync } from 'fs';
+import { getSchema, type Schema } from '@mrleebo/prisma-ast';
+import { readdirSync, readFileSync, statSync } from 'fs';
 import { join, resolve } from 'path';
 import {
+  COLUMN_FIELD_KINDS,
   type PrismaField,
+  type PrismaFieldKind,
   type PrismaModel,
   type SchemaAnalysis,
   SUPPORTED_PROVIDERS,
@@ -14,10 +16,71 @@ import { ConfigReader } from './config-reader';
 export { SUPPORTED_PROVIDERS } from '../types';
 
 /**
- * Schema reader class for parsing and analyzing Prisma schema files
+ * Scalar types built into Prisma
+ */
+const PRIMITIVE_TYPES = [
+  'String',
+  'Int',
+  'Float',
+  'Boolean',
+  'DateTime',
+  'Json',
+  'Bytes',
+  'Decimal',
+  'BigInt',
+];
+
+/**
+ * Names of the schema blocks a field type can refer to
+ */
+interface SchemaBlockNames {
+  models: Set<string>;
+  enums: Set<string>;
+  types: Set<string>;
+}
+
+/**
+ * A parsed .prisma file
+ */
+interface SchemaFile {
+  path: string;
+  schema: Schema;
+}
+
+/**
+ * The schema as parsed once per reader: the merged AST and its resolved models
+ */
+interface SchemaGraph {
+  files: SchemaFile[];
+  schema: Schema;
+  models: readonly PrismaModel[];
+  modelsByName: ReadonlyMap<string, PrismaModel>;
+}
+
+/**
+ * Freeze a resolved model so consumers sharing it cannot change it
+ */
+function freezeModel(model: PrismaModel): PrismaModel {
+  for (const field of model.fields) {
+    Object.freeze(field.attributes);
+    Object.freeze(field);
+  }
+  Object.freeze(model.fields);
+  Object.freeze(model.blockAttributes);
+
+  return Object.freeze(model);
+}
+
+/**
+ * Schema reader class for parsing and analyzing Prisma schema files.
+ *
+ * The schema path may point at a single file or at a directory of `.prisma`
+ * files (prismaSchemaFolder), which are merged into one schema.
  */
 export class SchemaReader {
   private readonly schemaPath: string;
+  private graph: SchemaGraph | null = null;
+  private analysis: SchemaAnalysis | null = null;
 
   constructor(schemaPath?: string) {
     this.schemaPath =
@@ -25,18 +88,150 @@ export class SchemaReader {
   }
 
   /**
-   * Reads and analyzes the Prisma schema file
+   * Lists the schema files to read: the schema path itself, or every .prisma
+   * file below it when it is a directory
+   */
+  private getSchemaFilePaths(): string[] {
+    // Resolve the absolute path to avoid relative path issues
+    const absolutePath = resolve(this.schemaPath);
+
+    if (!statSync(absolutePath).isDirectory()) {
+      return [this.schemaPath];
+    }
+
+    const paths: string[] = [];
+    const walk = (directory: string, displayDirectory: string): void => {
+      const entries = readdirSync(directory, { withFileTypes: true }).sort(
+        (a, b) => a.name.localeCompare(b.name),
+      );
+
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          walk(join(directory, entry.name), join(displayDirectory, entry.name));
+        } else if (entry.name.endsWith('.prisma')) {
+          paths.push(join(displayDirectory, entry.name));
+        }
+      }
+    };
+    walk(absolutePath, this.schemaPath);
+
+    if (paths.length === 0) {
+      throw new Error(`No .prisma files found in "${this.schemaPath}"`);
+    }
+
+    return paths;
+  }
+
+  /**
+   * Reads and parses every schema file
+   */
+  private readSchemaFiles(): SchemaFile[] {
+    const paths = this.getSchemaFilePaths();
+
+    return paths.map((path) => {
+      const schemaContent = readFileSync(resolve(path), 'utf-8');
+
+      try {
+        return { path, schema: getSchema(schemaContent) };
+      } catch (error) {
+        // Only name the file when there is more than one to choose from
+        if (paths.length === 1) {
+          throw error;
+        }
+        throw new Error(
+          `${path}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Merges the blocks of all schema files into a single schema
+   */
+  private mergeSchemaFiles(files: SchemaFile[]): Schema {
+    return {
+      type: 'schema',
+      list: files.flatMap((file) => file.schema.list),
+    };
+  }
+
+  /**
+   * Parses the schema and resolves its models (table and column names, field
+   * kinds, block attributes) on first use. The graph is immutable and shared
+   * by every accessor for the lifetime of the reader.
+   */
+  private loadGraph(): SchemaGraph {
+    if (this.graph) {
+      return this.graph;
+    }
+
+    const files = this.readSchemaFiles();
+    const schema = this.mergeSchemaFiles(files);
+
+    // Classify field types by the blocks that declare them
+    const blockNames = this.collectBlockNames(schema.list);
+    const models = files.flatMap((file) =>
+      file.schema.list
+        .filter((item) => item.type === 'model' || item.type === 'view')
+        .map((model) =>
+          freezeModel({
+            ...this.parseModel(model, blockNames),
+            sourceFile: file.path,
+          }),
+        ),
+    );
+
+    // The first declaration wins when a model is declared twice
+    const modelsByName = new Map<string, PrismaModel>();
+    for (const model of models) {
+      if (!modelsByName.has(model.name)) {
+        modelsByName.set(model.name, model);
+      }
+    }
+
+    this.graph = {
+      files,
+      schema,
+      models: Object.freeze(models),
+      modelsByName,
+    };
+
+    return this.graph;
+  }
+
+  /**
+   * Reads and analyzes the Prisma schema file(s). The analysis is computed
+   * once per reader.
    */
   public async analyzeSchema(): Promise<SchemaAnalysis> {
+    if (!this.analysis) {
+      this.analysis = Object.freeze(this.buildAnalysis());
+    }
+
+    return this.analysis;
+  }
+
+  /**
+   * Builds the schema analysis from the parsed schema
+   */
+  private buildAnalysis(): SchemaAnalysis {
     try {
-      // Resolve the absolute path to avoid relative path issues
-      const absolutePath = resolve(this.schemaPath);
-      const schemaContent = readFileSync(absolutePath, 'utf-8');
-      const schema = getSchema(schemaContent);
+      const { files, schema, models } = this.loadGraph();
 
       const errors: string[] = [];
 
       // Find datasource
+      const datasources = files.flatMap((file) =>
+        file.schema.list
+          .filter((item) => item.type === 'datasource')
+          .map(() => file.path),
+      );
+      if (datasources.length > 1) {
+        errors.push(
+          `Multiple datasources found in schema: ${datasources.join(', ')}`,
+        );
+      }
+
       const datasource = schema.list.find((item) => item.type === 'datasource');
       if (!datasource) {
         errors.push('No datasource found in schema');
@@ -83,14 +278,11 @@ export class SchemaReader {
         );
       }
 
-      // Extract models
-      const models = schema.list
-        .filter((item) => item.type === 'model')
-        .map((model) => this.parseModel(model));
+      errors.push(...this.findDuplicateModels(models));
 
       return {
         provider: provider as any, // Return actual provider even if not supported
-        models,
+        models: [...models],
         isSupported,
         errors,
       };
@@ -108,36 +300,129 @@ export class SchemaReader {
     }
   }
 
+  /**
+   * Reports models declared more than once, naming the files declaring them
+   */
+  private findDuplicateModels(models: readonly PrismaModel[]): string[] {
+    const sourceFiles = new Map<string, string[]>();
+
+    for (const model of models) {
+      const files = sourceFiles.get(model.name) || [];
+      files.push(model.sourceFile || this.schemaPath);
+      sourceFiles.set(model.name, files);
+    }
+
+    return [...sourceFiles]
+      .filter(([, files]) => files.length > 1)
+      .map(
+        ([name, files]) =>
+          `Model "${name}" is defined more than once: ${files.join(', ')}`,
+      );
+  }
+
+  /**
+   * Collects the names of the blocks a field type can refer to
+   */
+  private collectBlockNames(list: Schema['list']): SchemaBlockNames {
+    const blockNames: SchemaBlockNames = {
+      models: new Set(),
+      enums: new Set(),
+      types: new Set(),
+    };
+
+    for (const item of list) {
+      switch (item.type) {
+        case 'model':
+        case 'view':
+          blockNames.models.add(item.name);
+          break;
+        case 'enum':
+          blockNames.enums.add(item.name);
+          break;
+        case 'type':
+          blockNames.types.add(item.name);
+          break;
+      }
+    }
+
+    return blockNames;
+  }
+
   /**
    * Parses a model from the schema AST
    */
-  private parseModel(model: any): PrismaModel {
+  private parseModel(model: any, blockNames: SchemaBlockNames): PrismaModel {
     const fields: PrismaField[] = [];
+    const blockAttributes: string[] = [];
+    let tableName = model.name;
+    let isIgnored = false;
+    let schema: string | undefined;
 
     if (model.properties) {
       for (const property of model.properties) {
         if (property.type === 'field') {
-          const field = this.parseField(property);
+          const field = this.parseField(property, blockNames);
           fields.push(field);
+          continue;
+        }
+
+        if (property.type !== 'attribute' || property.kind !== 'object') {
+          continue;
+        }
+
+        blockAttributes.push(property.name);
+
+        switch (property.name) {
+          case 'map':
+            tableName = this.getAttributeStringArgument(property) || tableName;
+            break;
+          case 'ignore':
+            isIgnored = true;
+            break;
+          case 'schema':
+            schema = this.getAttributeStringArgument(property) ?? undefined;
+            break;
         }
       }
     }
 
     return {
       name: model.name,
+      tableName,
       fields,
+      blockAttributes,
+      isIgnored,
+      isView: model.type === 'view',
+      ...(schema ? { schema } : {}),
     };
   }
 
+  /**
+   * Reads the first argument of an attribute as a string, e.g. `users` from
+   * `@@map("users")` or `@map(name: "users")`
+   */
+  private getAttributeStringArgument(attribute: any): string | null {
+    const argument = attribute.args?.[0];
+    let value = typeof argument === 'string' ? argument : argument?.value;
+
+    if (value?.type === 'keyValue') {
+      value = value.value;
+    }
+
+    return typeof value === 'string' ? value.replace(/"/g, '') : null;
+  }
+
   /**
    * Parses a field from the model AST
    */
-  private parseField(field: any): PrismaField {
+  private parseField(field: any, blockNames: SchemaBlockNames): PrismaField {
     const attributes: string[] = [];
+    let columnName = field.name;
     let isId = false;
     let isUnique = false;
     let hasDefault = false;
-    let isRelation = false;
+    let hasRelationAttribute = false;
+    let isIgnored = false;
 
     // Parse attributes
     if (field.attributes) {
@@ -156,49 +441,97 @@ export class SchemaReader {
             hasDefault = true;
             break;
           case 'relation':
-            isRelation = true;
+            hasRelationAttribute = true;
+            break;
+          case 'ignore':
+            isIgnored = true;
+            break;
+          case 'map':
+            columnName = this.getAttributeStringArgument(attr) || columnName;
             break;
         }
       }
     }
 
-    // Check if field type indicates a relation (starts with uppercase and not a primitive type)
-    const fieldType = field.fieldType || '';
-    const primitiveTypes = [
-      'String',
-      'Int',
-      'Float',
-      'Boolean',
-      'DateTime',
-      'Json',
-      'Bytes',
-      'Decimal',
-      'BigInt',
-    ];
-
-    // If it's an array type, check the base type
-    const baseType = fieldType.replace('[]', '');
+    // Unsupported("type") is parsed as a function call rather than a name
+    const fieldType =
+      typeof field.fieldType === 'string'
+        ? field.fieldType
+        : `${field.fieldType?.name}(${(field.fieldType?.params || []).join(
+            ', ',
+          )})`;
 
-    if (
-      baseType.match(/^[A-Z]/) &&
-      !primitiveTypes.includes(baseType) &&
-      !isRelation
-    ) {
-      isRelation = true;
-    }
+    const kind: PrismaFieldKind = hasRelationAttribute
+      ? 'relation'
+      : this.classifyFieldType(field.fieldType, blockNames);
 
     return {
       name: field.name,
+      columnName,
       type: fieldType,
+      kind,
       isOptional: field.optional || false,
       isId,
       isUnique,
       hasDefault,
-      isRelation,
+      isRelation: kind === 'relation',
+      isIgnored,
       attributes,
     };
   }
 
+  /**
+   * Classifies a field type by the schema block it refers to
+   */
+  private classifyFieldType(
+    fieldType: any,
+    blockNames: SchemaBlockNames,
+  ): PrismaFieldKind {
+    if (typeof fieldType !== 'string') {
+      return fieldType?.name === 'Unsupported' ? 'unsupported' : 'scalar';
+    }
+
+    // If it's an array type, check the base type
+    const baseType = fieldType.replace('[]', '');
+
+    if (PRIMITIVE_TYPES.includes(baseType)) {
+      return 'scalar';
+    }
+    if (blockNames.enums.has(baseType)) {
+      return 'enum';
+    }
+    if (blockNames.types.has(baseType)) {
+      return 'composite';
+    }
+
+    // Models, views and anything we cannot resolve are not columns
+    return 'relation';
+  }
+
+  /**
+   * Whether a field is stored as a column in the model's table
+   */
+  public static isColumnField(field: PrismaField): boolean {
+    return COLUMN_FIELD_KINDS.includes(
+      field.kind as (typeof COLUMN_FIELD_KINDS)[number],
+    );
+  }
+
+  /**
+   * Gets the fields of a model that are stored as columns, in schema order.
+   * @ignore fields are left out unless `includeIgnored` is set.
+   */
+  public static getColumnFields(
+    model: PrismaModel,
+    includeIgnored = true,
+  ): PrismaField[] {
+    return model.fields.filter(
+      (field) =>
+        SchemaReader.isColumnField(field) &&
+        (includeIgnored || !field.isIgnored),
+    );
+  }
+
   /**
    * Gets model names from the schema
    */
@@ -208,9 +541,13 @@ export class SchemaReader {
   }
 
   /**
-   * Gets field order for a specific model
+   * Gets field order for a specific model. @ignore fields are still columns,
+   * pass `includeIgnored = false` to leave them out.
    */
-  public async getModelFieldOrder(modelName: string): Promise<string[]> {
+  public async getModelFieldOrder(
+    modelName: string,
+    includeIgnored = true,
+  ): Promise<string[]> {
     const analysis = await this.analyzeSchema();
     const model = analysis.models.find((m) => m.name === modelName);
 
@@ -218,10 +555,10 @@ export class SchemaReader {
       throw new Error(`Model "${modelName}" not found in schema`);
     }
 
-    // Return only non-relation fields as those are the ones that have columns in the database
-    return model.fields
-      .filter((field) => !field.isRelation)
-      .map((field) => field.name);
+    // Return only the fields that have columns in the database
+    return SchemaReader.getColumnFields(model, includeIgnored).map(
+      (field) => field.name,
+    );
   }
 
   /**
@@ -253,35 +590,13 @@ export class SchemaReader {
    */
   public async getTableName(modelName: string): Promise<string> {
     try {
-      const absolutePath = resolve(this.schemaPath);
-      const schemaContent = readFileSync(absolutePath, 'utf-8');
-      const schema = getSchema(schemaContent);
-
-      const model = schema.list.find(
-        (item) => item.type === 'model' && item.name === modelName,
-      ) as any;
+      const model = this.loadGraph().modelsByName.get(modelName);
 
       if (!model) {
         throw new Error(`Model "${modelName}" not found in schema`);
       }
 
-      // Look for @@map attribute
-      if (model.properties) {
-        for (const property of model.properties) {
-          if (property.type === 'blockAttribute' && property.name === 'map') {
-            // Extract the table name from @@map("table_name")
-            if (property.args && property.args.length > 0) {
-              const mapValue = property.args[0];
-              if (typeof mapValue === 'string') {
-                return mapValue.replace(/"/g, ''); // Remove quotes
-              }
-            }
-          }
-        }
-      }
-
-      // If no @@map found, return the model name
-      return modelName;
+      return model.tableName;
     } catch (error) {
       // If we can't read the schema, fall back to model name
       return modelName;
@@ -297,40 +612,10 @@ export class SchemaReader {
     const mapping = new Map<string, string>();
 
     try {
-      const absolutePath = resolve(this.schemaPath);
-      const schemaContent = readFileSync(absolutePath, 'utf-8');
-      const schema = getSchema(schemaContent);
-
-      const model = schema.list.find(
-        (item) => item.type === 'model' && item.name === modelName,
-      ) as any;
+      const model = this.loadGraph().modelsByName.get(modelName);
 
-      if (!model || !model.properties) {
-        return mapping;
-      }
-
-      for (const property of model.properties) {
-        if (property.type === 'field') {
-          const fieldName = property.name;
-          let columnName = fieldName; // Default to field name
-
-          // Look for @map attribute on the field
-          if (property.attributes) {
-            for (const attr of property.attributes) {
-              if (attr.name === 'map') {
-                if (attr.args && attr.args.length > 0) {
-                  const mapValue = attr.args[0];
-                  if (typeof mapValue === 'string') {
-                    columnName = mapValue.replace(/"/g, ''); // Remove quotes
-                  }
-                }
-                break;
-              }
-            }
-          }
-
-          mapping.set(fieldName, columnName);
-        }
+      for (const field of model?.fields || []) {
+        mapping.set(field.name, field.columnName);
       }
     } catch (error) {
       // If we can't read the schema, return empty mapping (will fall back to field names)
@@ -344,9 +629,7 @@ export class SchemaReader {
    */
   public async getDatabaseUrl(): Promise<string> {
     try {
-      const absolutePath = resolve(this.schemaPath);
-      const schemaContent = readFileSync(absolutePath, 'utf-8');
-      const schema = getSchema(schemaContent);
+      const { schema } = this.loadGraph();
 
       // Find datasource
       const datasource = schema.list.find((item) => item.type === 'datasource');
@@ -0,0 +1,204 @@
+/**
+ * Kind of a SQL token
+ */
+export type SqlTokenType =
+  | 'whitespace'
+  | 'comment'
+  | 'string'
+  | 'identifier'
+  | 'word'
+  | 'punctuation';
+
+/**
+ * A token of a SQL script, with its range in the script. Joining the text of
+ * all tokens gives back the script exactly.
+ */
+export interface SqlToken {
+  type: SqlTokenType;
+  text: string;
+  /** Offset of the first character of the token */
+  start: number;
+  /** Offset just past the last character of the token */
+  end: number;
+}
+
+/**
+ * A replacement of a range of a SQL script
+ */
+export interface SqlEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Characters of a bare (unquoted) identifier, keyword or number
+ */
+const WORD_PATTERN = /[A-Za-z0-9_$\u0080-\uffff]/;
+
+/**
+ * Return the index just past the token starting at `start`
+ */
+function scanToken(sql: string, start: number): [SqlTokenType, number] {
+  const char = sql[start];
+
+  if (/\s/.test(char)) {
+    let i = start + 1;
+    while (i < sql.length && /\s/.test(sql[i])) {
+      i++;
+    }
+    return ['whitespace', i];
+  }
+
+  if (sql.startsWith('/*', start)) {
+    const end = sql.indexOf('*/', start + 2);
+    return ['comment', end === -1 ? sql.length : end + 2];
+  }
+
+  // `--` only starts a comment when followed by whitespace (MySQL)
+  if (char === '#' || /^--(\s|$)/.test(sql.slice(start, start + 3))) {
+    const end = sql.indexOf('\n', start);
+    return ['comment', end === -1 ? sql.length : end];
+  }
+
+  if (char === "'" || char === '"' || char === '`') {
+    let i = start + 1;
+    while (i < sql.length) {
+      if (sql[i] === '\\' && char !== '`') {
+        i += 2;
+        continue;
+      }
+      if (sql[i] === char) {
+        // A doubled quote is an escaped quote, not the end of the token
+        if (sql[i + 1] === char) {
+          i += 2;
+          continue;
+        }
+        break;
+      }
+      i++;
+    }
+    return [
+      char === '`' ? 'identifier' : 'string',
+      Math.min(i + 1, sql.length),
+    ];
+  }
+
+  if (WORD_PATTERN.test(char)) {
+    let i = start + 1;
+    while (i < sql.length && WORD_PATTERN.test(sql[i])) {
+      i++;
+    }
+    return ['word', i];
+  }
+
+  return ['punctuation', start + 1];
+}
+
+/**
+ * Split a SQL script into tokens. Whitespace and comments (`--`, `#` and
+ * `/* *\/`) are kept as tokens so the script can be rebuilt unchanged.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const [type, end] = scanToken(sql, i);
+    tokens.push({ type, text: sql.slice(i, end), start: i, end });
+    i = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Whether a token carries meaning, i.e. is not whitespace or a comment.
+ * Version comments (`/*! ... *\/`) count, as MySQL executes them.
+ */
+export function isSignificant(token: SqlToken): boolean {
+  return (
+    token.type !== 'whitespace' &&
+    (token.type !== 'comment' || token.text.startsWith('/*!'))
+  );
+}
+
+/**
+ * The name an identifier or bare word token stands for, without quotes
+ */
+export function tokenValue(token: SqlToken): string {
+  return token.type === 'identifier'
+    ? token.text.slice(1, -1).replace(/``/g, '`')
+    : token.text;
+}
+
+/**
+ * Whether a token is the given (case-insensitive) keyword
+ */
+export function isKeyword(
+  token: SqlToken | undefined,
+  keyword: string,
+): boolean {
+  return (
+    token !== undefined &&
+    token.type === 'word' &&
+    token.text.toUpperCase() === keyword
+  );
+}
+
+/**
+ * Whether a token is the given punctuation character
+ */
+export function isPunctuation(
+  token: SqlToken | undefined,
+  char: string,
+): boolean {
+  return (
+    token !== undefined && token.type === 'punctuation' && token.text === char
+  );
+}
+
+/**
+ * Split tokens on a punctuation character that is not nested in parentheses
+ */
+export function splitTokens(
+  tokens: SqlToken[],
+  separator: string,
+): SqlToken[][] {
+  const parts: SqlToken[][] = [[]];
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (isPunctuation(token, '(')) {
+      depth++;
+    } else if (isPunctuation(token, ')')) {
+      depth--;
+    } else if (depth === 0 && isPunctuation(token, separator)) {
+      parts.push([]);
+      continue;
+    }
+    parts[parts.length - 1].push(token);
+  }
+
+  return parts;
+}
+
+/**
+ * Apply non-overlapping edits to a SQL script. Text outside the edited
+ * ranges, comments included, is left untouched. Insertions at the same
+ * position end up in the order given.
+ */
+export function applySqlEdits(sql: string, edits: SqlEdit[]): string {
+  let result = sql;
+
+  // Apply from the end, so earlier positions stay valid
+  const ordered = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+
+  for (const { edit } of ordered) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  return result;
+}
@@ -0,0 +1,15 @@
+/**
+ * Quote an identifier with backticks, escaping embedded backticks
+ */
+export function quoteIdentifier(identifier: string): string {
+  return `\`${identifier.replace(/`/g, '``')}\``;
+}
+
+/**
+ * Quote a table name, qualified with its schema when one is given
+ */
+export function quoteTableName(tableName: string, schemaName?: string): string {
+  return schemaName
+    ? `${quoteIdentifier(schemaName)}.${quoteIdentifier(tableName)}`
+    : quoteIdentifier(tableName);
+}
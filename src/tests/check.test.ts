@@ -0,0 +1,139 @@
+import { CheckCommand } from '../commands/check';
+import { ColumnReorderGenerator } from '../lib/column-reorder';
+import { MigrationCreator } from '../lib/migration-creator';
+import { MigrationFixer } from '../lib/migration-fixer';
+import { setupSchemaManager } from './utils/t_schema_manager';
+import { setupMigrationManager } from './utils/t_migration_manager';
+import { type CheckOptions } from '../types';
+
+describe('CheckCommand', () => {
+  let schemaManager: ReturnType<typeof setupSchemaManager>;
+  let migrationManager: ReturnType<typeof setupMigrationManager>;
+  let checkCommand: CheckCommand;
+  let options: CheckOptions;
+
+  const outOfOrderResult = {
+    model: 'User',
+    table: 'User',
+    changes: [
+      {
+        column: 'email',
+        fromPosition: 2,
+        toPosition: 1,
+        operation: 'move' as const,
+      },
+    ],
+    sql: [
+      'ALTER TABLE `User` MODIFY COLUMN `email` varchar(191) NOT NULL AFTER `id`;',
+    ],
+  };
+
+  beforeEach(() => {
+    schemaManager = setupSchemaManager('check-command');
+    migrationManager = setupMigrationManager('check-command');
+    checkCommand = new CheckCommand();
+    options = {
+      schema: schemaManager.createSchemaFile('mysql'),
+      migrationsDir: migrationManager.getMigrationsDir(),
+    };
+
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(process, 'exit').mockImplementation((code?: number) => {
+      throw new Error(`Process.exit called with code ${code}`);
+    });
+
+    jest
+      .spyOn(ColumnReorderGenerator.prototype, 'generateReorderSQL')
+      .mockResolvedValue([]);
+    jest
+      .spyOn(MigrationFixer.prototype, 'getLatestMigration')
+      .mockReturnValue('/fake/migration.sql');
+    jest
+      .spyOn(MigrationFixer.prototype, 'fixLatestMigration')
+      .mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    schemaManager.cleanup();
+    migrationManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  it('should exit cleanly when columns and the latest migration are in order', async () => {
+    await expect(checkCommand.execute(options)).resolves.toBeUndefined();
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it('should exit with 1 when database columns are out of order', async () => {
+    jest
+      .spyOn(ColumnReorderGenerator.prototype, 'generateReorderSQL')
+      .mockResolvedValue([outOfOrderResult]);
+
+    await expect(checkCommand.execute(options)).rejects.toThrow(
+      'Process.exit called with code 1',
+    );
+    expect(console.log).toHaveBeenCalledWith('   - User: 1 column(s) to move');
+  });
+
+  it('should exit with 1 when the latest migration needs fixes', async () => {
+    jest
+      .spyOn(MigrationFixer.prototype, 'fixLatestMigration')
+      .mockResolvedValue({
+        migrationFile: '/fake/migration.sql',
+        originalSql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191);',
+        fixedSql:
+          'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191) AFTER `id`;',
+        changes: ['Fixed column position for User.email (AFTER `id`)'],
+      });
+
+    await expect(checkCommand.execute(options)).rejects.toThrow(
+      'Process.exit called with code 1',
+    );
+  });
+
+  it('should not write any files', async () => {
+    jest
+      .spyOn(ColumnReorderGenerator.prototype, 'generateReorderSQL')
+      .mockResolvedValue([outOfOrderResult]);
+    const createMigration = jest.spyOn(
+      MigrationCreator.prototype,
+      'createMigration',
+    );
+    const applyFixes = jest.spyOn(MigrationFixer.prototype, 'applyFixes');
+
+    await expect(checkCommand.execute(options)).rejects.toThrow();
+    expect(createMigration).not.toHaveBeenCalled();
+    expect(applyFixes).not.toHaveBeenCalled();
+  });
+
+  it('should skip the migration check when there are no migrations', async () => {
+    jest
+      .spyOn(MigrationFixer.prototype, 'getLatestMigration')
+      .mockReturnValue(null);
+
+    await checkCommand.execute(options);
+
+    expect(MigrationFixer.prototype.fixLatestMigration).not.toHaveBeenCalled();
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+
+  it('should pass the model filter to the reorder analysis', async () => {
+    await checkCommand.execute({ ...options, model: ['User'] });
+
+    expect(
+      ColumnReorderGenerator.prototype.generateReorderSQL,
+    ).toHaveBeenCalledWith(['User']);
+  });
+
+  it('should exit with 2 when the check cannot run', async () => {
+    jest
+      .spyOn(ColumnReorderGenerator.prototype, 'generateReorderSQL')
+      .mockRejectedValue(new Error('Connection failed'));
+
+    await expect(checkCommand.execute(options)).rejects.toThrow(
+      'Process.exit called with code 2',
+    );
+    expect(console.error).toHaveBeenCalledWith('Connection failed');
+  });
+});
@@ -0,0 +1,304 @@
+import {
+  findDefaultClause,
+  parseAlterTableStatements,
+  parseCreateTableColumns,
+  parseCreateTableStatements,
+  parseDdlStatements,
+} from '../lib/ddl-parser';
+
+describe('ddl-parser', () => {
+  describe('parseAlterTableStatements', () => {
+    it('should read the table and the columns each clause adds', () => {
+      const [statement] = parseAlterTableStatements(
+        'ALTER TABLE `User` DROP COLUMN `old`, ADD COLUMN `bio` TEXT NULL AFTER `name`;',
+      );
+
+      expect(statement.tableName).toBe('User');
+      expect(statement.clauses.map((clause) => clause.action)).toEqual([
+        'DROP',
+        'ADD',
+      ]);
+      expect(statement.clauses[1].columns).toMatchObject([
+        {
+          name: 'bio',
+          definition: 'TEXT NULL',
+          position: { keyword: 'AFTER', column: 'name' },
+        },
+      ]);
+    });
+
+    it('should skip statements that are not ALTER TABLE', () => {
+      const statements =
+        parseAlterTableStatements(`CREATE TABLE \`a\` (\`x\` int);
+CREATE INDEX \`i\` ON \`a\`(\`x\`);
+ALTER TABLE \`a\` ADD COLUMN \`y\` int;`);
+
+      expect(statements.map((statement) => statement.tableName)).toEqual(['a']);
+    });
+
+    it('should not split statements on semicolons in strings or comments', () => {
+      const statements = parseAlterTableStatements(`-- note; not a statement
+ALTER TABLE \`a\` ADD COLUMN \`x\` varchar(5) NOT NULL DEFAULT ';' /* ; */;
+ALTER TABLE \`b\` ADD COLUMN \`y\` int;`);
+
+      expect(statements).toHaveLength(2);
+      expect(statements[0].clauses[0].columns[0].definition).toBe(
+        "varchar(5) NOT NULL DEFAULT ';'",
+      );
+    });
+
+    it('should read schema-qualified and escaped identifiers', () => {
+      const [statement] = parseAlterTableStatements(
+        'ALTER TABLE `billing`.`in-voice` ADD COLUMN `a``b` int FIRST;',
+      );
+
+      expect(statement).toMatchObject({
+        tableName: 'in-voice',
+        schemaName: 'billing',
+      });
+      expect(statement.clauses[0].columns[0]).toMatchObject({
+        name: 'a`b',
+        position: { keyword: 'FIRST' },
+      });
+    });
+
+    it('should read parenthesized column lists', () => {
+      const [statement] = parseAlterTableStatements(
+        'ALTER TABLE `a` ADD (`x` decimal(10, 2) NULL, `y` int NOT NULL);',
+      );
+
+      expect(statement.clauses[0].isColumnList).toBe(true);
+      expect(statement.clauses[0].columns).toMatchObject([
+        { name: 'x', definition: 'decimal(10, 2) NULL' },
+        { name: 'y', definition: 'int NOT NULL' },
+      ]);
+    });
+
+    it('should not read indexes and constraints as columns', () => {
+      const [statement] = parseAlterTableStatements(
+        'ALTER TABLE `a` ADD INDEX `i`(`x`), ADD CONSTRAINT `fk` FOREIGN KEY (`x`) REFERENCES `b`(`id`), ADD `z` int;',
+      );
+
+      expect(
+        statement.clauses.map((clause) =>
+          clause.columns.map((column) => column.name),
+        ),
+      ).toEqual([[], [], ['z']]);
+    });
+
+    it('should read the columns DROP, MODIFY, CHANGE and RENAME act on', () => {
+      const [statement] = parseAlterTableStatements(
+        'ALTER TABLE `a` DROP COLUMN IF EXISTS `x`, MODIFY `y` int FIRST, CHANGE COLUMN `z` `w` text AFTER `y`, RENAME COLUMN `v` TO `u`;',
+      );
+
+      expect(statement.clauses).toMatchObject([
+        { action: 'DROP', targetColumn: 'x' },
+        {
+          action: 'MODIFY',
+          targetColumn: 'y',
+          redefinedColumn: { name: 'y', position: { keyword: 'FIRST' } },
+        },
+        {
+          action: 'CHANGE',
+          targetColumn: 'z',
+          redefinedColumn: {
+            name: 'w',
+            definition: 'text',
+            position: { keyword: 'AFTER', column: 'y' },
+          },
+        },
+        { action: 'RENAME', targetColumn: 'v', newColumnName: 'u' },
+      ]);
+    });
+
+    it('should read column defaults set by ALTER COLUMN', () => {
+      const [statement] = parseAlterTableStatements(
+        "ALTER TABLE `a` ALTER COLUMN `x` SET DEFAULT 'y', ALTER `z` DROP DEFAULT;",
+      );
+
+      expect(statement.clauses).toMatchObject([
+        { targetColumn: 'x', columnDefault: "'y'", isRecognized: true },
+        { targetColumn: 'z', columnDefault: null, isRecognized: true },
+      ]);
+    });
+
+    it('should flag clauses it does not understand', () => {
+      const [statement] = parseAlterTableStatements(
+        'ALTER TABLE `a` ADD INDEX `i`(`x`), ALGORITHM=INPLACE, ALTER COLUMN `x` SET INVISIBLE, CONVERT TO CHARACTER SET latin1;',
+      );
+
+      expect(
+        statement.clauses.map((clause) => [clause.action, clause.isRecognized]),
+      ).toEqual([
+        ['ADD', true],
+        ['ALGORITHM', true],
+        ['ALTER', false],
+        ['CONVERT', false],
+      ]);
+      expect(statement.clauses[2].targetColumn).toBe('x');
+    });
+
+    it('should point at where a position clause belongs', () => {
+      const sql = 'ALTER TABLE `a` ADD COLUMN `x` int -- note\n;';
+      const [statement] = parseAlterTableStatements(sql);
+      const [column] = statement.clauses[0].columns;
+
+      expect(sql.slice(0, column.definitionEnd)).toBe(
+        'ALTER TABLE `a` ADD COLUMN `x` int',
+      );
+    });
+  });
+
+  describe('parseCreateTableStatements', () => {
+    const createTable = `-- CreateTable
+CREATE TABLE IF NOT EXISTS \`billing\`.\`Invoice\` (
+    \`total\` DECIMAL(10, 2) NOT NULL DEFAULT 0, -- gross
+    \`id\` INTEGER NOT NULL AUTO_INCREMENT,
+
+    UNIQUE INDEX \`Invoice_total_key\`(\`total\`),
+    PRIMARY KEY (\`id\`)
+) DEFAULT CHARACTER SET utf8mb4;`;
+
+    it('should read the columns, keys and constraints of the body', () => {
+      const [statement] = parseCreateTableStatements(createTable);
+
+      expect(statement).toMatchObject({
+        tableName: 'Invoice',
+        schemaName: 'billing',
+      });
+      expect(
+        statement.elements.map((element) => element.columnName ?? null),
+      ).toEqual(['total', 'id', null, null]);
+    });
+
+    it('should give element ranges without commas or comments', () => {
+      const [statement] = parseCreateTableStatements(createTable);
+      const [total, , index] = statement.elements;
+
+      expect(createTable.slice(total.start, total.end)).toBe(
+        '`total` DECIMAL(10, 2) NOT NULL DEFAULT 0',
+      );
+      expect(createTable.slice(index.start, index.end)).toBe(
+        'UNIQUE INDEX `Invoice_total_key`(`total`)',
+      );
+    });
+
+    it('should skip CREATE TABLE statements without a body', () => {
+      expect(parseCreateTableStatements('CREATE TABLE `a` LIKE `b`;')).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe('parseDdlStatements', () => {
+    it('should report the kind and starting line of each statement', () => {
+      const sql = `-- AddColumn
+ALTER TABLE \`a\` ADD COLUMN \`x\` int;
+
+/* Second
+   statement */
+DROP TABLE IF EXISTS \`b\`, \`billing\`.\`c\`;
+RENAME TABLE \`d\` TO \`e\`;
+CREATE INDEX \`i\` ON \`a\`(\`x\`);`;
+      const statements = parseDdlStatements(sql);
+
+      expect(
+        statements.map((statement) => [statement.kind, statement.line]),
+      ).toEqual([
+        ['ALTER TABLE', 2],
+        ['DROP TABLE', 6],
+        ['RENAME TABLE', 7],
+        ['OTHER', 8],
+      ]);
+      expect(sql.slice(statements[0].start, statements[0].end)).toBe(
+        'ALTER TABLE `a` ADD COLUMN `x` int',
+      );
+      expect(statements[1]).toMatchObject({
+        tables: [{ tableName: 'b' }, { tableName: 'c', schemaName: 'billing' }],
+      });
+      expect(statements[2]).toMatchObject({
+        renames: [{ from: { tableName: 'd' }, to: { tableName: 'e' } }],
+      });
+    });
+
+    it('should read table renames in ALTER TABLE', () => {
+      const [statement] = parseAlterTableStatements(
+        'ALTER TABLE `a` RENAME INDEX `i` TO `j`, RENAME TO `billing`.`b`;',
+      );
+
+      expect(statement.clauses[0].newTable).toBeUndefined();
+      expect(statement.clauses[1].newTable).toEqual({
+        tableName: 'b',
+        schemaName: 'billing',
+      });
+    });
+
+    it('should leave comments out of definitions', () => {
+      const [statement] = parseCreateTableStatements(`CREATE TABLE \`a\` (
+  \`x\` varchar(5) -- short
+    NOT NULL /* required */ DEFAULT 'a  b'
+);`);
+
+      expect(statement.elements[0].definition).toBe(
+        "varchar(5) NOT NULL DEFAULT 'a  b'",
+      );
+    });
+  });
+
+  describe('findDefaultClause', () => {
+    it('should find the default value with the tokens attached to it', () => {
+      const definition =
+        'datetime(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3)';
+      const clause = findDefaultClause(definition);
+
+      expect(clause && definition.slice(clause.start, clause.end)).toBe(
+        'DEFAULT CURRENT_TIMESTAMP(3)',
+      );
+      expect(findDefaultClause('int NOT NULL')).toBeNull();
+    });
+  });
+
+  describe('parseCreateTableColumns', () => {
+    it('should skip keys and constraints', () => {
+      const columns = parseCreateTableColumns(`CREATE TABLE \`Post\` (
+  \`id\` int NOT NULL,
+  \`authorId\` int NOT NULL,
+  PRIMARY KEY (\`id\`),
+  KEY \`Post_authorId_idx\` (\`authorId\`),
+  CONSTRAINT \`Post_authorId_fkey\` FOREIGN KEY (\`authorId\`) REFERENCES \`User\` (\`id\`)
+) ENGINE=InnoDB`);
+
+      expect([...columns.entries()]).toEqual([
+        ['id', 'int NOT NULL'],
+        ['authorId', 'int NOT NULL'],
+      ]);
+    });
+
+    it('should keep generated column expressions and version comments', () => {
+      const columns = parseCreateTableColumns(`CREATE TABLE \`t\` (
+  \`price\` decimal(10,2) NOT NULL,
+  \`total\` decimal(10,2) GENERATED ALWAYS AS ((\`price\` * 2)) STORED,
+  \`secret\` int DEFAULT NULL /*!80023 INVISIBLE */
+)`);
+
+      expect(columns.get('total')).toBe(
+        'decimal(10,2) GENERATED ALWAYS AS ((`price` * 2)) STORED',
+      );
+      expect(columns.get('secret')).toBe(
+        'int DEFAULT NULL /*!80023 INVISIBLE */',
+      );
+    });
+
+    it('should unescape quoted column names', () => {
+      const columns = parseCreateTableColumns(
+        'CREATE TABLE `t` (`a``b` int, `c(d)` int)',
+      );
+
+      expect([...columns.keys()]).toEqual(['a`b', 'c(d)']);
+    });
+
+    it('should return an empty map for text without a table body', () => {
+      expect(parseCreateTableColumns('not a create table').size).toBe(0);
+    });
+  });
+});
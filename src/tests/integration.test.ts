@@ -1,4 +1,6 @@
 import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
 import { SyncCommand } from '../commands/sync';
 import { FixMigrationCommand } from '../commands/fix-migration';
 import { SchemaReader } from '../lib/schema-reader';
@@ -7,7 +9,11 @@ import { ColumnReorderGenerator } from '../lib/column-reorder';
 import { MigrationFixer } from '../lib/migration-fixer';
 import { setupSchemaManager, TEST_SCHEMAS } from './utils/t_schema_manager';
 import { setupMigrationManager } from './utils/t_migration_manager';
-import { type FixMigrationOptions, type SyncOptions } from '../types';
+import {
+  JSON_OUTPUT_VERSION,
+  type FixMigrationOptions,
+  type SyncOptions,
+} from '../types';
 
 // Mock mysql2 for integration tests
 jest.mock('mysql2/promise', () => ({
@@ -82,13 +88,23 @@ describe('Integration Tests', () => {
     jest
       .spyOn(MigrationFixer.prototype, 'fixLatestMigration')
       .mockResolvedValue(null); // No fixes needed
+    jest
+      .spyOn(MigrationFixer.prototype, 'fixMigration')
+      .mockResolvedValue(null);
     jest.spyOn(MigrationFixer.prototype, 'applyFixes').mockResolvedValue(true);
+    jest
+      .spyOn(MigrationFixer.prototype, 'getAppliedMigrations')
+      .mockResolvedValue([]);
+    jest
+      .spyOn(MigrationFixer.prototype, 'detectServerVersion')
+      .mockResolvedValue('8.0.36');
   });
 
   afterEach(() => {
     schemaManager.cleanup();
     migrationManager.cleanup();
     jest.restoreAllMocks();
+    process.exitCode = undefined;
   });
 
   describe('End-to-End Sync Workflow', () => {
@@ -222,6 +238,486 @@ ALTER TABLE \`User\` ADD COLUMN \`email\` VARCHAR(191) NOT NULL;`;
     });
   });
 
+  describe('Migration Fixer JSON Output', () => {
+    it('should print the fix result as a versioned document', async () => {
+      const fixResult = {
+        migrationFile: '/fake/migration.sql',
+        originalSql:
+          'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191) NOT NULL;',
+        fixedSql:
+          'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191) NOT NULL AFTER `name`;',
+        changes: ['Fixed column position for User.email (AFTER `name`)'],
+      };
+      jest
+        .spyOn(MigrationFixer.prototype, 'fixMigration')
+        .mockResolvedValue(fixResult);
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ json: true, apply: true, verbose: true });
+
+      const calls = (console.log as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(1);
+      expect(JSON.parse(calls[0][0])).toEqual({
+        version: JSON_OUTPUT_VERSION,
+        command: 'fix-migration',
+        success: true,
+        migrationFile: '/fake/migration.sql',
+        result: fixResult,
+        migrationFiles: ['/fake/migration.sql'],
+        results: [fixResult],
+        applied: true,
+        restoredFiles: [],
+        warnings: [],
+        errors: [],
+      });
+    });
+
+    it('should report a missing migration as a warning', async () => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'getLatestMigration')
+        .mockReturnValue(null);
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ json: true });
+
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({
+        success: true,
+        migrationFile: null,
+        result: null,
+        warnings: ['No migration files found'],
+      });
+    });
+  });
+
+  describe('Migration Fixer Selection', () => {
+    const createFixResult = (migrationFile: string) => ({
+      migrationFile,
+      originalSql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191);',
+      fixedSql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191) FIRST;',
+      changes: ['Fixed column position for User.email (FIRST)'],
+    });
+
+    it('should fix every migration since the named one with one report', async () => {
+      const migrationFiles = ['/fake/a/migration.sql', '/fake/b/migration.sql'];
+      const getMigrationsSince = jest
+        .spyOn(MigrationFixer.prototype, 'getMigrationsSince')
+        .mockReturnValue(migrationFiles);
+      jest
+        .spyOn(MigrationFixer.prototype, 'fixMigration')
+        .mockImplementation(async (migrationFile) =>
+          createFixResult(migrationFile),
+        );
+      const applyFixes = jest.spyOn(MigrationFixer.prototype, 'applyFixes');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ since: 'a', apply: true });
+
+      expect(getMigrationsSince).toHaveBeenCalledWith('a');
+      // The analyzed results are written, without fixing the files again
+      expect(applyFixes).toHaveBeenCalledWith(
+        createFixResult('/fake/a/migration.sql'),
+      );
+      expect(applyFixes).toHaveBeenCalledWith(
+        createFixResult('/fake/b/migration.sql'),
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        '\n📊 2 of 2 migrations need column order fixes (2 changes)',
+      );
+    });
+
+    it('should read the applied list for pending migrations', async () => {
+      const appliedList = `${migrationManager.getTempDir()}/applied.txt`;
+      writeFileSync(appliedList, '# applied\n20240101000000_init\n\n');
+      const getPendingMigrations = jest
+        .spyOn(MigrationFixer.prototype, 'getPendingMigrations')
+        .mockResolvedValue([]);
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ pending: true, appliedList, json: true });
+
+      expect(getPendingMigrations).toHaveBeenCalledWith([
+        '20240101000000_init',
+      ]);
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({
+        success: true,
+        migrationFiles: [],
+        warnings: ['No pending migrations found'],
+      });
+    });
+
+    it('should reject more than one selection', async () => {
+      const fixCommand = new FixMigrationCommand();
+
+      await fixCommand.execute({ migration: 'a', pending: true });
+      expect(process.exitCode).toBe(1);
+      expect(console.error).toHaveBeenCalledWith(
+        'Use only one of --migration, --since, --pending and --file',
+      );
+    });
+  });
+
+  describe('Migration Fixer Files and Stdin', () => {
+    const mockStdin = (sql: string) => {
+      jest
+        .spyOn(process, 'stdin', 'get')
+        .mockReturnValue(
+          Readable.from([Buffer.from(sql)]) as unknown as typeof process.stdin,
+        );
+      return jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    };
+
+    it('should fix a SQL file given by path', async () => {
+      const sqlFile = join(migrationManager.getTempDir(), 'diff.sql');
+      writeFileSync(sqlFile, 'ALTER TABLE `User` ADD COLUMN `email` TEXT;');
+      const fixMigration = jest.spyOn(MigrationFixer.prototype, 'fixMigration');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ file: sqlFile });
+
+      expect(fixMigration).toHaveBeenCalledWith(sqlFile);
+    });
+
+    it('should read the schema given with --schema', async () => {
+      const schemaPath = schemaManager.createSchemaFile(
+        'mysql',
+        'custom.prisma',
+      );
+      const write = mockStdin(
+        'ALTER TABLE `User` ADD COLUMN `name` VARCHAR(191) NULL;',
+      );
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ file: '-', schema: schemaPath });
+
+      expect(write).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'ADD COLUMN `name` VARCHAR(191) NULL AFTER `email`',
+        ),
+      );
+    });
+
+    it('should report a missing SQL file', async () => {
+      const fixCommand = new FixMigrationCommand();
+
+      await fixCommand.execute({ file: 'missing.sql' });
+      expect(process.exitCode).toBe(1);
+      expect(console.error).toHaveBeenCalledWith(
+        'Migration file not found: missing.sql',
+      );
+    });
+
+    it('should write the fixed SQL from stdin to stdout', async () => {
+      const write = mockStdin('ALTER TABLE `User` ADD COLUMN `email` TEXT;');
+      const fixMigrationSql = jest
+        .spyOn(MigrationFixer.prototype, 'fixMigrationSql')
+        .mockResolvedValue({
+          sql: 'ALTER TABLE `User` ADD COLUMN `email` TEXT AFTER `id`;',
+          changes: ['Fixed column position for User.email (AFTER `id`)'],
+          rebuildTables: [],
+        });
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ file: '-', verbose: true });
+
+      expect(fixMigrationSql).toHaveBeenCalledWith(
+        'ALTER TABLE `User` ADD COLUMN `email` TEXT;',
+      );
+      expect(write).toHaveBeenCalledWith(
+        'ALTER TABLE `User` ADD COLUMN `email` TEXT AFTER `id`;',
+      );
+      // Progress goes to stderr so stdout holds only the SQL
+      expect(console.log).not.toHaveBeenCalled();
+    });
+
+    it('should pass SQL that needs no fixes through unchanged', async () => {
+      const write = mockStdin('SELECT 1;');
+      jest
+        .spyOn(MigrationFixer.prototype, 'fixMigrationSql')
+        .mockResolvedValue(null);
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ file: '-' });
+
+      expect(write).toHaveBeenCalledWith('SELECT 1;');
+    });
+
+    it('should close the connection when the fix fails', async () => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'fixMigration')
+        .mockRejectedValue(new Error('Unexpected SQL'));
+      const disconnect = jest.spyOn(MigrationFixer.prototype, 'disconnect');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({});
+      expect(process.exitCode).toBe(1);
+
+      expect(disconnect).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('Unexpected SQL');
+    });
+
+    it('should refuse to apply fixes when reading from stdin', async () => {
+      const fixCommand = new FixMigrationCommand();
+
+      await fixCommand.execute({ file: '-', apply: true });
+      expect(process.exitCode).toBe(1);
+      expect(console.error).toHaveBeenCalledWith(
+        '--apply cannot be used when reading from stdin',
+      );
+    });
+  });
+
+  describe('Migration Fixer Undo', () => {
+    it('should restore the selected migration from its backup', async () => {
+      const restoreBackup = jest
+        .spyOn(MigrationFixer.prototype, 'restoreBackup')
+        .mockReturnValue(true);
+      const fixMigration = jest.spyOn(MigrationFixer.prototype, 'fixMigration');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ undo: true, json: true });
+
+      expect(restoreBackup).toHaveBeenCalledWith('/fake/migration.sql');
+      expect(fixMigration).not.toHaveBeenCalled();
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({
+        success: true,
+        restoredFiles: ['/fake/migration.sql'],
+        warnings: [],
+      });
+    });
+
+    it('should warn when there is no backup to restore', async () => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'restoreBackup')
+        .mockReturnValue(false);
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ undo: true, json: true });
+
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({
+        success: true,
+        restoredFiles: [],
+        warnings: ['No backups found to restore'],
+      });
+    });
+
+    it('should fail when a migration cannot be restored', async () => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'restoreBackup')
+        .mockImplementation(() => {
+          throw new Error('/fake/migration.sql has changed');
+        });
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ undo: true, json: true });
+      expect(process.exitCode).toBe(1);
+
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({
+        success: false,
+        restoredFiles: [],
+        errors: ['/fake/migration.sql has changed'],
+      });
+    });
+
+    it('should update the checksum of a restored applied migration when asked to', async () => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'getLatestMigration')
+        .mockReturnValue('/fake/20240101000000_add_email/migration.sql');
+      jest
+        .spyOn(MigrationFixer.prototype, 'restoreBackup')
+        .mockReturnValue(true);
+      jest
+        .spyOn(MigrationFixer.prototype, 'getAppliedMigrations')
+        .mockResolvedValue(['20240101000000_add_email']);
+      const updateChecksum = jest
+        .spyOn(MigrationFixer.prototype, 'updateChecksum')
+        .mockResolvedValue('checksum');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({
+        undo: true,
+        updateChecksum: true,
+        migrationsDir: '/fake',
+      });
+
+      expect(updateChecksum).toHaveBeenCalledWith(
+        '/fake/20240101000000_add_email/migration.sql',
+      );
+    });
+  });
+
+  describe('Migration Fixer Server Versions', () => {
+    it('should not connect for the server version when nothing needs it', async () => {
+      const detectServerVersion = jest.spyOn(
+        MigrationFixer.prototype,
+        'detectServerVersion',
+      );
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({});
+
+      expect(detectServerVersion).not.toHaveBeenCalled();
+    });
+
+    it('should warn about rebuilt tables and print their sizes', async () => {
+      jest.spyOn(MigrationFixer.prototype, 'fixMigration').mockResolvedValue({
+        migrationFile: '/fake/migration.sql',
+        originalSql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191);',
+        fixedSql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191) FIRST;',
+        changes: ['Fixed column position for User.email (FIRST)'],
+        rebuildTables: [{ tableName: 'User' }],
+      });
+      const detectServerVersion = jest.spyOn(
+        MigrationFixer.prototype,
+        'detectServerVersion',
+      );
+      jest
+        .spyOn(MigrationFixer.prototype, 'getTableSizes')
+        .mockResolvedValue([
+          { tableName: 'User', rows: 1200, bytes: 3 * 1024 * 1024 },
+        ]);
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ serverVersion: '8.0.28' });
+
+      expect(detectServerVersion).not.toHaveBeenCalled();
+      const logs = (console.log as jest.Mock).mock.calls.map(
+        ([message]) => message,
+      );
+      expect(logs).toContain(
+        '\n⚠️  Server 8.0.28 cannot apply the fixed column positions instantly, so the fixed ALTER TABLE statements rebuild these tables: User',
+      );
+      expect(logs).toContain('   - User: ~1200 rows, 3.0 MB');
+    });
+  });
+
+  describe('Migration Fixer Applied Migrations', () => {
+    const fixResult = {
+      migrationFile: '/fake/20240101000000_add_email/migration.sql',
+      originalSql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191);',
+      fixedSql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191) FIRST;',
+      changes: ['Fixed column position for User.email (FIRST)'],
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'getLatestMigration')
+        .mockReturnValue(fixResult.migrationFile);
+      jest
+        .spyOn(MigrationFixer.prototype, 'fixMigration')
+        .mockResolvedValue(fixResult);
+      jest
+        .spyOn(MigrationFixer.prototype, 'getAppliedMigrations')
+        .mockResolvedValue(['20240101000000_add_email']);
+    });
+
+    it('should refuse to edit a migration the database has applied', async () => {
+      const applyFixes = jest.spyOn(MigrationFixer.prototype, 'applyFixes');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({
+        apply: true,
+        json: true,
+        migrationsDir: '/fake',
+      });
+      expect(process.exitCode).toBe(1);
+
+      expect(applyFixes).not.toHaveBeenCalled();
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({ success: false, applied: false });
+      expect(output.errors[0]).toMatch(
+        /"20240101000000_add_email" is already applied.*--update-checksum/,
+      );
+    });
+
+    it('should fix it and update its checksum when asked to', async () => {
+      const applyFixes = jest.spyOn(MigrationFixer.prototype, 'applyFixes');
+      const updateChecksum = jest
+        .spyOn(MigrationFixer.prototype, 'updateChecksum')
+        .mockResolvedValue('checksum');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({
+        apply: true,
+        updateChecksum: true,
+        migrationsDir: '/fake',
+      });
+
+      expect(applyFixes).toHaveBeenCalledWith(fixResult);
+      expect(updateChecksum).toHaveBeenCalledWith(fixResult.migrationFile);
+    });
+
+    it('should refuse to apply when applied migrations cannot be read', async () => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'getAppliedMigrations')
+        .mockRejectedValue(new Error('Connection refused'));
+      const applyFixes = jest.spyOn(MigrationFixer.prototype, 'applyFixes');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({
+        apply: true,
+        json: true,
+        migrationsDir: '/fake',
+      });
+      expect(process.exitCode).toBe(1);
+
+      expect(applyFixes).not.toHaveBeenCalled();
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({ success: false, applied: false });
+      expect(output.errors[0]).toMatch(
+        /Connection refused.*--applied-list, or --assume-unapplied/,
+      );
+    });
+
+    it('should warn when applied migrations cannot be read and are assumed unapplied', async () => {
+      jest
+        .spyOn(MigrationFixer.prototype, 'getAppliedMigrations')
+        .mockRejectedValue(new Error('Connection refused'));
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({
+        apply: true,
+        assumeUnapplied: true,
+        json: true,
+        migrationsDir: '/fake',
+      });
+
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({
+        success: true,
+        applied: true,
+        warnings: [
+          'Could not check which migrations are applied: Connection refused',
+        ],
+      });
+    });
+
+    it('should not look up a file outside the migrations directory', async () => {
+      const file = join(migrationManager.getTempDir(), 'standalone.sql');
+      writeFileSync(file, fixResult.originalSql);
+      jest
+        .spyOn(MigrationFixer.prototype, 'fixMigration')
+        .mockResolvedValue({ ...fixResult, migrationFile: file });
+      const getAppliedMigrations = jest
+        .spyOn(MigrationFixer.prototype, 'getAppliedMigrations')
+        .mockRejectedValue(new Error('Connection refused'));
+      const applyFixes = jest.spyOn(MigrationFixer.prototype, 'applyFixes');
+
+      const fixCommand = new FixMigrationCommand();
+      await fixCommand.execute({ apply: true, file, migrationsDir: '/fake' });
+
+      expect(getAppliedMigrations).not.toHaveBeenCalled();
+      expect(applyFixes).toHaveBeenCalledWith({
+        ...fixResult,
+        migrationFile: file,
+      });
+    });
+  });
+
   describe('Component Integration', () => {
     it('should properly integrate SchemaReader with ColumnReorderGenerator', async () => {
       const schemaPath = schemaManager.createSchemaFile('mysql');
@@ -0,0 +1,224 @@
+import { AuditMigrationsCommand } from '../commands/audit-migrations';
+import { MigrationAuditor } from '../lib/migration-auditor';
+import { setupMigrationManager } from './utils/t_migration_manager';
+import { setupSchemaManager } from './utils/t_schema_manager';
+
+describe('MigrationAuditor', () => {
+  let schemaManager: ReturnType<typeof setupSchemaManager>;
+  let migrationManager: ReturnType<typeof setupMigrationManager>;
+  let schemaPath: string;
+
+  const createTables = `-- CreateTable
+CREATE TABLE \`User\` (
+    \`id\` INTEGER NOT NULL AUTO_INCREMENT,
+    \`email\` VARCHAR(191) NOT NULL,
+    \`name\` VARCHAR(191) NULL,
+    PRIMARY KEY (\`id\`)
+);
+
+-- CreateTable
+CREATE TABLE \`Profile\` (
+    \`id\` INTEGER NOT NULL AUTO_INCREMENT,
+    \`bio\` VARCHAR(191) NULL,
+    \`userId\` INTEGER NOT NULL,
+    PRIMARY KEY (\`id\`)
+);`;
+
+  const createMigrations = (...migrations: string[]) =>
+    migrationManager.createMigrationSequence(
+      migrations.map((sql, index) => ({ name: `step_${index}`, sql })),
+    );
+
+  beforeEach(() => {
+    schemaManager = setupSchemaManager('migration-auditor');
+    migrationManager = setupMigrationManager('migration-auditor');
+    schemaPath = schemaManager.createSchemaFile('mysql');
+  });
+
+  afterEach(() => {
+    schemaManager.cleanup();
+    migrationManager.cleanup();
+    jest.restoreAllMocks();
+  });
+
+  const audit = () =>
+    new MigrationAuditor(
+      migrationManager.getMigrationsDir(),
+      schemaPath,
+    ).audit();
+
+  describe('audit', () => {
+    it('should report no drift for a history that follows the schema', async () => {
+      createMigrations(
+        createTables,
+        'ALTER TABLE `User` ADD COLUMN `createdAt` DATETIME(3) NOT NULL;',
+      );
+
+      const result = await audit();
+
+      expect(result.migrationsChecked).toBe(2);
+      expect(result.statementsChecked).toBe(3);
+      expect(result.drifts).toEqual([]);
+    });
+
+    it('should report the migration and statement that first caused drift', async () => {
+      const [, drifting] = createMigrations(
+        createTables,
+        `-- Unrelated change
+ALTER TABLE \`Profile\` ADD COLUMN \`avatar\` TEXT NULL;
+
+-- AddColumn
+ALTER TABLE \`User\` ADD COLUMN \`createdAt\` DATETIME(3) NOT NULL FIRST;`,
+        'ALTER TABLE `User` ADD COLUMN `updatedAt` DATETIME(3) NOT NULL;',
+      );
+
+      const result = await audit();
+
+      expect(result.drifts).toHaveLength(1);
+      expect(result.drifts[0]).toMatchObject({
+        model: 'User',
+        table: 'User',
+        migration: drifting.migrationDir.split(/[\\/]/).pop(),
+        file: drifting.migrationFile,
+        line: 5,
+        statement:
+          'ALTER TABLE `User` ADD COLUMN `createdAt` DATETIME(3) NOT NULL FIRST',
+        actualOrder: ['createdAt', 'id', 'email', 'name'],
+        expectedOrder: ['id', 'email', 'name', 'createdAt', 'updatedAt'],
+        resolved: false,
+      });
+    });
+
+    it('should ignore columns the schema does not know about', async () => {
+      createMigrations(
+        createTables,
+        'ALTER TABLE `User` ADD COLUMN `legacy` INTEGER NULL FIRST;',
+      );
+
+      expect((await audit()).drifts).toEqual([]);
+    });
+
+    it('should mark drift that a later migration fixed as resolved', async () => {
+      createMigrations(
+        createTables,
+        'ALTER TABLE `Profile` MODIFY `userId` INTEGER NOT NULL AFTER `id`;',
+        'ALTER TABLE `Profile` MODIFY `bio` VARCHAR(191) NULL AFTER `id`;',
+      );
+
+      const [drift] = (await audit()).drifts;
+
+      expect(drift.model).toBe('Profile');
+      expect(drift.line).toBe(1);
+      expect(drift.resolved).toBe(true);
+    });
+
+    it('should use @@map table names', async () => {
+      schemaPath = schemaManager.createCustomSchemaFile(
+        `datasource db {
+  provider = "mysql"
+  url      = env("DATABASE_URL")
+}
+
+model Account {
+  id    Int    @id
+  email String @map("email_address")
+
+  @@map("accounts")
+}`,
+        'mapped.prisma',
+      );
+      createMigrations(
+        'CREATE TABLE `accounts` (`email_address` VARCHAR(191) NOT NULL, `id` INTEGER NOT NULL);',
+      );
+
+      const [drift] = (await audit()).drifts;
+
+      expect(drift).toMatchObject({
+        model: 'Account',
+        table: 'accounts',
+        expectedOrder: ['id', 'email_address'],
+      });
+    });
+
+    it('should fail when the schema cannot be read', async () => {
+      createMigrations(createTables);
+      schemaPath = 'does-not-exist.prisma';
+
+      await expect(audit()).rejects.toThrow('Failed to read or parse schema');
+    });
+
+    it('should fail for an unsupported provider', async () => {
+      createMigrations(createTables);
+      schemaPath = schemaManager.createSchemaFile('postgresql');
+
+      await expect(audit()).rejects.toThrow(
+        'Provider "postgresql" is not supported',
+      );
+    });
+  });
+
+  describe('AuditMigrationsCommand', () => {
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(process, 'exit').mockImplementation((code?: number) => {
+        throw new Error(`Process.exit called with code ${code}`);
+      });
+    });
+
+    const execute = (json = false) =>
+      new AuditMigrationsCommand().execute({
+        schema: schemaPath,
+        migrationsDir: migrationManager.getMigrationsDir(),
+        json,
+      });
+
+    it('should exit cleanly when the history follows the schema', async () => {
+      createMigrations(createTables);
+
+      await expect(execute()).resolves.toBeUndefined();
+      expect(console.log).toHaveBeenCalledWith(
+        '✅ No migration put a table out of schema column order',
+      );
+    });
+
+    it('should exit with 1 and point at the drifting statement', async () => {
+      const [, drifting] = createMigrations(
+        createTables,
+        'ALTER TABLE `User` ADD COLUMN `createdAt` DATETIME(3) NOT NULL FIRST;',
+      );
+
+      await expect(execute()).rejects.toThrow(
+        'Process.exit called with code 1',
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        `   Statement: ${drifting.migrationFile}:1`,
+      );
+    });
+
+    it('should exit with 1 when the schema cannot be read', async () => {
+      createMigrations(createTables);
+      schemaPath = 'does-not-exist.prisma';
+
+      await expect(execute()).rejects.toThrow(
+        'Process.exit called with code 1',
+      );
+      expect(console.log).not.toHaveBeenCalledWith(
+        '✅ No migration put a table out of schema column order',
+      );
+    });
+
+    it('should print the audit as a JSON document', async () => {
+      createMigrations(createTables);
+
+      await execute(true);
+
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output).toMatchObject({
+        command: 'audit-migrations',
+        success: true,
+        result: { migrationsChecked: 1, drifts: [] },
+      });
+    });
+  });
+});
@@ -0,0 +1,301 @@
+import { MigrationReplayer } from '../lib/migration-replayer';
+import { setupMigrationManager } from './utils/t_migration_manager';
+
+describe('MigrationReplayer', () => {
+  let migrationManager: ReturnType<typeof setupMigrationManager>;
+
+  const createUserTable = `-- CreateTable
+CREATE TABLE \`User\` (
+    \`id\` INTEGER NOT NULL AUTO_INCREMENT,
+    \`email\` VARCHAR(191) NOT NULL,
+    \`name\` VARCHAR(191) NULL,
+
+    UNIQUE INDEX \`User_email_key\`(\`email\`),
+    PRIMARY KEY (\`id\`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;`;
+
+  const replay = async (...migrations: string[]) => {
+    migrationManager.createMigrationSequence(
+      migrations.map((sql, index) => ({ name: `step_${index}`, sql })),
+    );
+    const replayer = new MigrationReplayer(migrationManager.getMigrationsDir());
+    return replayer.getTablesMetadata();
+  };
+
+  const columnNames = async (...migrations: string[]) => {
+    const [table] = await replay(...migrations);
+    return table.columns.map((column) => column.name);
+  };
+
+  beforeEach(() => {
+    migrationManager = setupMigrationManager('migration-replayer');
+  });
+
+  afterEach(() => {
+    migrationManager.cleanup();
+  });
+
+  describe('CREATE TABLE', () => {
+    it('should read columns in order and skip keys', async () => {
+      const tables = await replay(createUserTable);
+
+      expect(tables).toHaveLength(1);
+      expect(tables[0].name).toBe('User');
+      expect(tables[0].columns.map((column) => column.name)).toEqual([
+        'id',
+        'email',
+        'name',
+      ]);
+    });
+
+    it('should derive column metadata from the definitions', async () => {
+      const [table] = await replay(createUserTable);
+      const [id, email, name] = table.columns;
+
+      expect(id).toMatchObject({
+        type: 'INTEGER NOT NULL AUTO_INCREMENT',
+        nullable: false,
+        isAutoIncrement: true,
+        position: 1,
+      });
+      expect(email.nullable).toBe(false);
+      expect(name).toMatchObject({ nullable: true, position: 3 });
+    });
+
+    it('should read generated column expressions', async () => {
+      const [table] = await replay(`CREATE TABLE \`Product\` (
+    \`price\` DECIMAL(10, 2) NOT NULL,
+    \`total\` DECIMAL(10, 2) GENERATED ALWAYS AS ((\`price\` * 1.2)) STORED
+);`);
+
+      expect(table.columns[1]).toMatchObject({
+        generationExpression: '(`price` * 1.2)',
+        generationType: 'STORED',
+      });
+    });
+  });
+
+  describe('ALTER TABLE', () => {
+    it('should append added columns or place them with FIRST/AFTER', async () => {
+      expect(
+        await columnNames(
+          createUserTable,
+          `ALTER TABLE \`User\` ADD COLUMN \`bio\` TEXT NULL,
+    ADD COLUMN \`uuid\` CHAR(36) NOT NULL FIRST,
+    ADD COLUMN \`avatar\` VARCHAR(191) NULL AFTER \`email\`;`,
+        ),
+      ).toEqual(['uuid', 'id', 'email', 'avatar', 'name', 'bio']);
+    });
+
+    it('should drop columns but not indexes or foreign keys', async () => {
+      expect(
+        await columnNames(
+          createUserTable,
+          `ALTER TABLE \`User\` DROP FOREIGN KEY \`User_fkey\`;
+ALTER TABLE \`User\` DROP INDEX \`User_email_key\`, DROP COLUMN \`name\`;`,
+        ),
+      ).toEqual(['id', 'email']);
+    });
+
+    it('should keep the position of modified columns unless moved', async () => {
+      const [table] = await replay(
+        createUserTable,
+        'ALTER TABLE `User` MODIFY `email` VARCHAR(255) NOT NULL;',
+        'ALTER TABLE `User` MODIFY COLUMN `name` VARCHAR(191) NULL AFTER `id`;',
+      );
+
+      expect(table.columns.map((column) => column.name)).toEqual([
+        'id',
+        'name',
+        'email',
+      ]);
+      expect(table.columns[2].type).toBe('VARCHAR(255) NOT NULL');
+    });
+
+    it('should rename columns with CHANGE and RENAME COLUMN', async () => {
+      expect(
+        await columnNames(
+          createUserTable,
+          'ALTER TABLE `User` CHANGE `name` `fullName` VARCHAR(191) NULL FIRST;',
+          'ALTER TABLE `User` RENAME COLUMN `email` TO `mail`;',
+        ),
+      ).toEqual(['fullName', 'id', 'mail']);
+    });
+
+    it('should read ADD COLUMN IF NOT EXISTS and parenthesized column lists', async () => {
+      expect(
+        await columnNames(
+          createUserTable,
+          'ALTER TABLE `User` ADD COLUMN IF NOT EXISTS `bio` TEXT NULL, ADD COLUMN IF NOT EXISTS `name` TEXT NULL;',
+          'ALTER TABLE `User` ADD (`age` INTEGER NULL, `city` TEXT NULL);',
+        ),
+      ).toEqual(['id', 'email', 'name', 'bio', 'age', 'city']);
+    });
+
+    it('should follow ALTER COLUMN SET DEFAULT and DROP DEFAULT', async () => {
+      migrationManager.createMigrationSequence([
+        { name: 'step_0', sql: createUserTable },
+        {
+          name: 'step_1',
+          sql: "ALTER TABLE `User` ALTER COLUMN `email` SET DEFAULT 'none', ALTER `name` SET DEFAULT 'anonymous';",
+        },
+        {
+          name: 'step_2',
+          sql: 'ALTER TABLE `User` ALTER COLUMN `name` DROP DEFAULT;',
+        },
+      ]);
+      const replayer = new MigrationReplayer(
+        migrationManager.getMigrationsDir(),
+      );
+
+      const definitions = await replayer.getColumnDefinitions('User');
+
+      expect(definitions.get('email')).toBe(
+        "VARCHAR(191) NOT NULL DEFAULT 'none'",
+      );
+      expect(definitions.get('name')).toBe('VARCHAR(191) NULL');
+    });
+
+    it('should ignore ALTER TABLE on tables the history never created', async () => {
+      const tables = await replay(
+        'ALTER TABLE `Legacy` ADD COLUMN `note` TEXT NULL;',
+      );
+
+      expect(tables).toEqual([]);
+    });
+
+    it('should report the migration file when a statement cannot be replayed', async () => {
+      await expect(
+        replay(
+          createUserTable,
+          'ALTER TABLE `User` ADD COLUMN `bio` TEXT NULL AFTER `missing`;',
+        ),
+      ).rejects.toThrow(
+        /Failed to replay .*step_1.*Column "missing" not found/,
+      );
+    });
+  });
+
+  describe('table statements', () => {
+    it('should follow renamed and dropped tables', async () => {
+      const tables = await replay(
+        createUserTable,
+        'CREATE TABLE `Post` (`id` INTEGER NOT NULL);',
+        'RENAME TABLE `User` TO `Member`;',
+        'ALTER TABLE `Post` RENAME TO `Article`;',
+        'DROP TABLE IF EXISTS `Article`;',
+      );
+
+      expect(tables.map((table) => table.name)).toEqual(['Member']);
+    });
+
+    it('should keep tables of different schemas apart', async () => {
+      migrationManager.createMigration({
+        name: 'multi_schema',
+        sql: `CREATE TABLE \`billing\`.\`Invoice\` (\`total\` INT, \`id\` INT);
+CREATE TABLE \`Invoice\` (\`id\` INT);`,
+        timestamp: '20240101000000',
+      });
+      const replayer = new MigrationReplayer(
+        migrationManager.getMigrationsDir(),
+      );
+
+      const [billing] = await replayer.getTablesMetadata(
+        ['Invoice'],
+        'billing',
+      );
+      const [local] = await replayer.getTablesMetadata(['Invoice']);
+
+      expect(billing.columns.map((column) => column.name)).toEqual([
+        'total',
+        'id',
+      ]);
+      expect(local.columns.map((column) => column.name)).toEqual(['id']);
+    });
+  });
+
+  describe('metadata source', () => {
+    it('should leave out tables that do not exist', async () => {
+      migrationManager.createMigration({
+        name: 'init',
+        sql: createUserTable,
+        timestamp: '20240101000000',
+      });
+      const replayer = new MigrationReplayer(
+        migrationManager.getMigrationsDir(),
+      );
+
+      const tables = await replayer.getTablesMetadata(['Post', 'user']);
+
+      expect(tables.map((table) => table.name)).toEqual(['user']);
+    });
+
+    it('should return column definitions for moved columns', async () => {
+      migrationManager.createMigration({
+        name: 'init',
+        sql: createUserTable,
+        timestamp: '20240101000000',
+      });
+      const replayer = new MigrationReplayer(
+        migrationManager.getMigrationsDir(),
+      );
+
+      const definitions = await replayer.getColumnDefinitions('User');
+
+      expect(definitions.get('email')).toBe('VARCHAR(191) NOT NULL');
+    });
+
+    it('should refuse definitions of columns changed by clauses it cannot replay', async () => {
+      migrationManager.createMigrationSequence([
+        { name: 'step_0', sql: createUserTable },
+        {
+          name: 'step_1',
+          sql: 'ALTER TABLE `User` ALTER COLUMN `name` SET INVISIBLE, ADD INDEX `User_name_idx`(`name`);',
+        },
+      ]);
+      const replayer = new MigrationReplayer(
+        migrationManager.getMigrationsDir(),
+      );
+
+      await expect(
+        replayer.getColumnDefinitions('User', undefined, ['name']),
+      ).rejects.toThrow(
+        /Cannot redefine column "name" of "User" offline: .*step_1.*:1/,
+      );
+      await expect(
+        replayer.getColumnDefinitions('User', undefined, ['email']),
+      ).resolves.toBeInstanceOf(Map);
+    });
+
+    it('should refuse every column after an unknown clause without a column', async () => {
+      migrationManager.createMigrationSequence([
+        { name: 'step_0', sql: createUserTable },
+        {
+          name: 'step_1',
+          sql: 'ALTER TABLE `User` CONVERT TO CHARACTER SET latin1;',
+        },
+        {
+          name: 'step_2',
+          sql: 'ALTER TABLE `User` MODIFY `email` VARCHAR(100) NOT NULL;',
+        },
+      ]);
+      const replayer = new MigrationReplayer(
+        migrationManager.getMigrationsDir(),
+      );
+
+      await expect(
+        replayer.getColumnDefinitions('User', undefined, ['id']),
+      ).rejects.toThrow('Cannot redefine column "id"');
+      // MODIFY gives the column a definition of its own again
+      await expect(
+        replayer.getColumnDefinitions('User', undefined, ['email']),
+      ).resolves.toBeInstanceOf(Map);
+    });
+
+    it('should fail when the migrations directory does not exist', () => {
+      const replayer = new MigrationReplayer('/nonexistent/migrations');
+
+      expect(() => replayer.replay()).toThrow('Migrations directory not found');
+    });
+  });
+});
@@ -1,3 +1,4 @@
+import * as prismaAst from '@mrleebo/prisma-ast';
 import { SchemaReader } from '../lib/schema-reader';
 import { ColumnReorderGenerator } from '../lib/column-reorder';
 import { DatabaseConnector } from '../lib/database-connector';
@@ -29,41 +30,37 @@ describe('Performance Tests', () => {
     // Mock DatabaseConnector methods for performance tests
     jest.spyOn(DatabaseConnector.prototype, 'connect').mockResolvedValue();
     jest.spyOn(DatabaseConnector.prototype, 'disconnect').mockResolvedValue();
-    jest
-      .spyOn(DatabaseConnector.prototype, 'tableExists')
-      .mockResolvedValue(true);
-    jest
-      .spyOn(DatabaseConnector.prototype, 'getTableMetadata')
-      .mockResolvedValue({
-        name: 'User',
-        columns: [
-          {
-            name: 'id',
-            type: 'int(11) NOT NULL AUTO_INCREMENT',
-            nullable: false,
-            defaultValue: null,
-            isAutoIncrement: true,
-            isPrimaryKey: true,
-            isUnique: true,
-            extra: 'auto_increment',
-            position: 1,
-          },
-          {
-            name: 'email',
-            type: 'varchar(255) NOT NULL',
-            nullable: false,
-            defaultValue: null,
-            isAutoIncrement: false,
-            isPrimaryKey: false,
-            isUnique: true,
-            extra: '',
-            position: 2,
-          },
-        ],
-      });
     jest
       .spyOn(DatabaseConnector.prototype, 'getTablesMetadata')
-      .mockResolvedValue([]);
+      .mockImplementation(async (tableNames?: string[]) =>
+        (tableNames || []).map((name) => ({
+          name,
+          columns: [
+            {
+              name: 'id',
+              type: 'int(11) NOT NULL AUTO_INCREMENT',
+              nullable: false,
+              defaultValue: null,
+              isAutoIncrement: true,
+              isPrimaryKey: true,
+              isUnique: true,
+              extra: 'auto_increment',
+              position: 1,
+            },
+            {
+              name: 'email',
+              type: 'varchar(255) NOT NULL',
+              nullable: false,
+              defaultValue: null,
+              isAutoIncrement: false,
+              isPrimaryKey: false,
+              isUnique: true,
+              extra: '',
+              position: 2,
+            },
+          ],
+        })),
+      );
   });
 
   afterEach(() => {
@@ -462,5 +459,95 @@ ALTER TABLE \`User\` ADD COLUMN \`email\` VARCHAR(191) NOT NULL;`;
       // Second half shouldn't be more than 50% slower than first half
       expect(secondHalfAvg).toBeLessThan(firstHalfAvg * 1.5);
     });
+
+    it('should keep batched syncs consistent under sustained load', async () => {
+      const schemaPath = schemaManager.createSchemaFile('mysql');
+      const durations: number[] = [];
+
+      // A single sync takes a few milliseconds, so time batches of 10 to
+      // keep a GC pause from outweighing the sync itself
+      for (let iteration = 0; iteration < 10; iteration++) {
+        const startTime = performance.now();
+
+        for (let run = 0; run < 10; run++) {
+          const schemaReader = new SchemaReader(schemaPath);
+          await schemaReader.getSchemaAnalysis();
+
+          const generator = new ColumnReorderGenerator(schemaPath);
+          await generator.generateReorderSQL();
+        }
+
+        durations.push(performance.now() - startTime);
+      }
+
+      const firstHalf = durations.slice(0, 5);
+      const secondHalf = durations.slice(5);
+
+      const firstHalfAvg =
+        firstHalf.reduce((a, b) => a + b, 0) / firstHalf.length;
+      const secondHalfAvg =
+        secondHalf.reduce((a, b) => a + b, 0) / secondHalf.length;
+
+      // Later batches shouldn't be more than 50% slower than earlier ones
+      expect(secondHalfAvg).toBeLessThan(firstHalfAvg * 1.5);
+    });
+  });
+
+  describe('Schema Graph Performance', () => {
+    const createManyModelsSchema = (modelCount: number) => {
+      let schema = `
+        datasource db {
+          provider = "mysql"
+          url      = env("DATABASE_URL")
+        }
+      `;
+
+      for (let i = 0; i < modelCount; i++) {
+        schema += `
+        model Model${i} {
+          id    Int    @id @default(autoincrement())
+          email String @map("email_address")
+          name  String?
+
+          @@map("model_${i}")
+        }
+        `;
+      }
+
+      return schemaManager.createCustomSchemaFile(schema);
+    };
+
+    it('should parse a 300 model schema once for a whole sync run', async () => {
+      const schemaPath = createManyModelsSchema(300);
+      const getSchemaSpy = jest.spyOn(prismaAst, 'getSchema');
+
+      try {
+        const generator = new ColumnReorderGenerator(schemaPath);
+
+        const startTime = performance.now();
+        const results = await generator.generateReorderSQL();
+        const duration = performance.now() - startTime;
+
+        expect(Array.isArray(results)).toBe(true);
+        expect(getSchemaSpy).toHaveBeenCalledTimes(1);
+        expect(duration).toBeLessThan(3000); // Should complete within 3 seconds
+      } finally {
+        getSchemaSpy.mockRestore();
+      }
+    });
+
+    it('should share one immutable model graph between accessors', async () => {
+      const schemaReader = new SchemaReader(createManyModelsSchema(3));
+
+      const first = await schemaReader.getSchemaAnalysis();
+      const second = await schemaReader.getSchemaAnalysis();
+
+      expect(second).toBe(first);
+      expect(Object.isFrozen(first.models[0])).toBe(true);
+      expect(Object.isFrozen(first.models[0].fields[0])).toBe(true);
+      expect(first.models[0].tableName).toBe('model_0');
+      expect(first.models[0].fields[1].columnName).toBe('email_address');
+      expect(await schemaReader.getTableName('Model1')).toBe('model_1');
+    });
   });
 });
@@ -0,0 +1,73 @@
+import { applySqlEdits, tokenizeSql, tokenValue } from '../lib/sql-tokenizer';
+
+describe('sql-tokenizer', () => {
+  describe('tokenizeSql', () => {
+    it('should rebuild the script exactly from its tokens', () => {
+      const sql = `-- comment; with semicolon
+ALTER TABLE \`a\` ADD COLUMN \`b\` varchar(5) DEFAULT 'x;y' /* c */; # end`;
+
+      expect(
+        tokenizeSql(sql)
+          .map((token) => token.text)
+          .join(''),
+      ).toBe(sql);
+    });
+
+    it('should keep semicolons in strings and comments inside their token', () => {
+      const tokens = tokenizeSql(
+        'DEFAULT \'a;b\' -- c;d\n# e;f\n/* g;h */ "i;j";',
+      );
+
+      expect(
+        tokens.filter((token) => token.type !== 'whitespace'),
+      ).toMatchObject([
+        { type: 'word', text: 'DEFAULT' },
+        { type: 'string', text: "'a;b'" },
+        { type: 'comment', text: '-- c;d' },
+        { type: 'comment', text: '# e;f' },
+        { type: 'comment', text: '/* g;h */' },
+        { type: 'string', text: '"i;j"' },
+        { type: 'punctuation', text: ';' },
+      ]);
+    });
+
+    it('should read escaped quotes inside strings and identifiers', () => {
+      const tokens = tokenizeSql("`we``ird` 'it''s' 'a\\'b'");
+
+      expect(tokens.map((token) => token.type)).toEqual([
+        'identifier',
+        'whitespace',
+        'string',
+        'whitespace',
+        'string',
+      ]);
+      expect(tokenValue(tokens[0])).toBe('we`ird');
+    });
+
+    it('should only read -- as a comment when followed by whitespace', () => {
+      const tokens = tokenizeSql('1--2');
+
+      expect(tokens.map((token) => token.text)).toEqual(['1', '-', '-', '2']);
+    });
+  });
+
+  describe('applySqlEdits', () => {
+    it('should apply edits by position regardless of their order', () => {
+      expect(
+        applySqlEdits('ADD a INT, ADD b INT', [
+          { start: 9, end: 9, text: ' FIRST' },
+          { start: 20, end: 20, text: ' AFTER `a`' },
+        ]),
+      ).toBe('ADD a INT FIRST, ADD b INT AFTER `a`');
+    });
+
+    it('should keep insertions at the same position in the order given', () => {
+      expect(
+        applySqlEdits('ADD a INT', [
+          { start: 9, end: 9, text: ' FIRST' },
+          { start: 9, end: 9, text: ', ALGORITHM=INSTANT' },
+        ]),
+      ).toBe('ADD a INT FIRST, ALGORITHM=INSTANT');
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { quoteIdentifier, quoteTableName } from '../lib/sql-utils';
+
+describe('sql-utils', () => {
+  describe('quoteIdentifier', () => {
+    it('should wrap identifiers in backticks', () => {
+      expect(quoteIdentifier('User')).toBe('`User`');
+    });
+
+    it('should escape embedded backticks', () => {
+      expect(quoteIdentifier('we`ird')).toBe('`we``ird`');
+    });
+  });
+
+  describe('quoteTableName', () => {
+    it('should qualify the table with its schema when given', () => {
+      expect(quoteTableName('Invoice')).toBe('`Invoice`');
+      expect(quoteTableName('Invoice', 'billing')).toBe('`billing`.`Invoice`');
+    });
+  });
+});
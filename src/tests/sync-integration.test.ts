@@ -340,10 +340,11 @@ model Post {
       );
       mockDbConnector.connect = jest.fn().mockResolvedValue(undefined);
       mockDbConnector.disconnect = jest.fn().mockResolvedValue(undefined);
-      mockDbConnector.tableExists = jest.fn().mockResolvedValue(true);
-      mockDbConnector.getTableMetadata = jest
+      mockDbConnector.getColumnDefinitions = jest
         .fn()
-        .mockResolvedValueOnce({
+        .mockResolvedValue(new Map());
+      mockDbConnector.getTablesMetadata = jest.fn().mockResolvedValue([
+        {
           name: 'User',
           columns: [
             {
@@ -402,8 +403,8 @@ model Post {
               position: 5,
             },
           ],
-        })
-        .mockResolvedValueOnce({
+        },
+        {
           name: 'Post',
           columns: [
             {
@@ -484,7 +485,8 @@ model Post {
               position: 7,
             },
           ],
-        });
+        },
+      ]);
 
       // Set up mocks
       MockedSchemaReader.mockImplementation(() => mockSchemaReader);
@@ -644,45 +646,49 @@ model User {
       );
       mockDbConnector.connect = jest.fn().mockResolvedValue(undefined);
       mockDbConnector.disconnect = jest.fn().mockResolvedValue(undefined);
-      mockDbConnector.tableExists = jest.fn().mockResolvedValue(true);
-      mockDbConnector.getTableMetadata = jest.fn().mockResolvedValue({
-        name: 'User',
-        columns: [
-          {
-            name: 'id',
-            type: 'int',
-            nullable: false,
-            defaultValue: null,
-            isAutoIncrement: true,
-            isPrimaryKey: true,
-            isUnique: false,
-            extra: 'auto_increment',
-            position: 1,
-          },
-          {
-            name: 'email',
-            type: 'varchar(191)',
-            nullable: false,
-            defaultValue: null,
-            isAutoIncrement: false,
-            isPrimaryKey: false,
-            isUnique: true,
-            extra: '',
-            position: 2,
-          },
-          {
-            name: 'name',
-            type: 'varchar(191)',
-            nullable: true,
-            defaultValue: null,
-            isAutoIncrement: false,
-            isPrimaryKey: false,
-            isUnique: false,
-            extra: '',
-            position: 3,
-          },
-        ],
-      });
+      mockDbConnector.getColumnDefinitions = jest
+        .fn()
+        .mockResolvedValue(new Map());
+      mockDbConnector.getTablesMetadata = jest.fn().mockResolvedValue([
+        {
+          name: 'User',
+          columns: [
+            {
+              name: 'id',
+              type: 'int',
+              nullable: false,
+              defaultValue: null,
+              isAutoIncrement: true,
+              isPrimaryKey: true,
+              isUnique: false,
+              extra: 'auto_increment',
+              position: 1,
+            },
+            {
+              name: 'email',
+              type: 'varchar(191)',
+              nullable: false,
+              defaultValue: null,
+              isAutoIncrement: false,
+              isPrimaryKey: false,
+              isUnique: true,
+              extra: '',
+              position: 2,
+            },
+            {
+              name: 'name',
+              type: 'varchar(191)',
+              nullable: true,
+              defaultValue: null,
+              isAutoIncrement: false,
+              isPrimaryKey: false,
+              isUnique: false,
+              extra: '',
+              position: 3,
+            },
+          ],
+        },
+      ]);
 
       // Set up mocks
       MockedSchemaReader.mockImplementation(() => mockSchemaReader);
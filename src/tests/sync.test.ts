@@ -1,9 +1,11 @@
 import { SyncCommand } from '../commands/sync';
 import { ColumnReorderGenerator } from '../lib/column-reorder';
 import { DatabaseConnector } from '../lib/database-connector';
+import { MigrationCreator } from '../lib/migration-creator';
 import { SchemaReader } from '../lib/schema-reader';
 import { setupSchemaManager } from './utils/t_schema_manager';
-import { type SyncOptions } from '../types';
+import { setupMigrationManager } from './utils/t_migration_manager';
+import { JSON_OUTPUT_VERSION, type SyncOptions } from '../types';
 
 // Mock mysql2 to avoid actual database connections in tests
 jest.mock('mysql2/promise', () => ({
@@ -228,6 +230,7 @@ describe('SyncCommand', () => {
       const mockResults = [
         {
           model: 'User',
+          table: 'User',
           changes: [
             {
               column: 'email',
@@ -254,6 +257,197 @@ describe('SyncCommand', () => {
       expect(console.log).toHaveBeenCalledWith('🔧 Model: User');
     });
   });
+
+  describe('json output', () => {
+    const reorderResult = {
+      model: 'User',
+      table: 'users',
+      changes: [
+        {
+          column: 'email',
+          fromPosition: 2,
+          toPosition: 1,
+          operation: 'move' as const,
+        },
+      ],
+      sql: [
+        'ALTER TABLE `users` MODIFY COLUMN `email` varchar(255) NOT NULL AFTER `id`;',
+      ],
+    };
+
+    const printedDocument = () => {
+      const calls = (console.log as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(1);
+      return JSON.parse(calls[0][0]);
+    };
+
+    it('should print only a versioned document with results and migration', async () => {
+      const schemaPath = schemaManager.createSchemaFile('mysql');
+      jest
+        .spyOn(ColumnReorderGenerator.prototype, 'generateReorderSQL')
+        .mockResolvedValue([reorderResult]);
+      jest
+        .spyOn(MigrationCreator.prototype, 'createMigration')
+        .mockReturnValue({
+          success: true,
+          migrationDir: 'prisma/migrations/20240101000000_sync_column_order',
+          migrationFile:
+            'prisma/migrations/20240101000000_sync_column_order/migration.sql',
+          migrationName: '20240101000000_sync_column_order',
+        });
+
+      await syncCommand.execute({
+        schema: schemaPath,
+        json: true,
+        verbose: true,
+      });
+
+      expect(printedDocument()).toEqual({
+        version: JSON_OUTPUT_VERSION,
+        command: 'sync',
+        success: true,
+        results: [reorderResult],
+        migration: {
+          name: '20240101000000_sync_column_order',
+          file: 'prisma/migrations/20240101000000_sync_column_order/migration.sql',
+        },
+        warnings: [],
+        errors: [],
+      });
+    });
+
+    it('should report when no migration is needed', async () => {
+      const schemaPath = schemaManager.createSchemaFile('mysql');
+      jest
+        .spyOn(ColumnReorderGenerator.prototype, 'generateReorderSQL')
+        .mockResolvedValue([]);
+
+      await syncCommand.execute({ schema: schemaPath, json: true });
+
+      expect(printedDocument()).toMatchObject({
+        success: true,
+        results: [],
+        migration: null,
+      });
+    });
+
+    it('should report errors in the document', async () => {
+      const schemaPath = schemaManager.createSchemaFile('mysql');
+      jest
+        .spyOn(ColumnReorderGenerator.prototype, 'generateReorderSQL')
+        .mockRejectedValue(new Error('Table "User" not found in database'));
+
+      await expect(
+        syncCommand.execute({ schema: schemaPath, json: true }),
+      ).rejects.toThrow('Process.exit called with code 1');
+
+      expect(printedDocument()).toMatchObject({
+        success: false,
+        errors: ['Table "User" not found in database'],
+      });
+    });
+  });
+
+  describe('offline mode', () => {
+    let migrationManager: ReturnType<typeof setupMigrationManager>;
+
+    beforeEach(() => {
+      migrationManager = setupMigrationManager('sync-offline');
+      migrationManager.createMigrationSequence([
+        {
+          name: 'init',
+          sql: `CREATE TABLE \`User\` (
+    \`id\` INTEGER NOT NULL AUTO_INCREMENT,
+    \`name\` VARCHAR(191) NULL,
+    \`createdAt\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    \`updatedAt\` DATETIME(3) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+CREATE TABLE \`Post\` (
+    \`id\` INTEGER NOT NULL AUTO_INCREMENT,
+    \`title\` VARCHAR(191) NOT NULL,
+    \`content\` VARCHAR(191) NULL,
+    \`published\` BOOLEAN NOT NULL DEFAULT false,
+    \`authorId\` INTEGER NOT NULL,
+    \`createdAt\` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    \`updatedAt\` DATETIME(3) NOT NULL,
+    PRIMARY KEY (\`id\`)
+);
+CREATE TABLE \`Profile\` (
+    \`id\` INTEGER NOT NULL AUTO_INCREMENT,
+    \`bio\` VARCHAR(191) NULL,
+    \`userId\` INTEGER NOT NULL,
+    PRIMARY KEY (\`id\`)
+);`,
+        },
+        {
+          name: 'add_email',
+          sql: 'ALTER TABLE `User` ADD COLUMN `email` VARCHAR(191) NOT NULL;',
+        },
+      ]);
+    });
+
+    afterEach(() => {
+      migrationManager.cleanup();
+    });
+
+    it('should generate the reorder migration from the migration history', async () => {
+      const schemaPath = schemaManager.createSchemaFile('mysql');
+      const testConnection = jest.spyOn(
+        DatabaseConnector.prototype,
+        'testConnection',
+      );
+      const getTablesMetadata = DatabaseConnector.prototype
+        .getTablesMetadata as jest.Mock;
+
+      await syncCommand.execute({
+        schema: schemaPath,
+        offline: true,
+        migrationsDir: migrationManager.getMigrationsDir(),
+        json: true,
+      });
+
+      const output = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(output.success).toBe(true);
+      expect(output.results).toHaveLength(1);
+      expect(output.results[0].sql).toEqual([
+        'ALTER TABLE `User` MODIFY COLUMN `email` VARCHAR(191) NOT NULL AFTER `id`;',
+      ]);
+      expect(
+        output.migration.file.startsWith(migrationManager.getMigrationsDir()),
+      ).toBe(true);
+      expect(testConnection).not.toHaveBeenCalled();
+      expect(getTablesMetadata).not.toHaveBeenCalled();
+      expect(SchemaReader.prototype.getDatabaseUrl).not.toHaveBeenCalled();
+    });
+
+    it('should report tables missing from the migration history', async () => {
+      const schemaPath = schemaManager.createSchemaFile('mysql');
+      const generator = new ColumnReorderGenerator(schemaPath, {
+        offline: true,
+        migrationsDir: migrationManager.getMigrationsDir(),
+      });
+
+      await expect(
+        generator.generateReorderSQL(['User', 'Post']),
+      ).resolves.toHaveLength(1);
+
+      migrationManager.createMigration({
+        name: 'drop_profile',
+        sql: 'DROP TABLE `Profile`;',
+        timestamp: '29990101000000',
+      });
+
+      await expect(
+        new ColumnReorderGenerator(schemaPath, {
+          offline: true,
+          migrationsDir: migrationManager.getMigrationsDir(),
+        }).generateReorderSQL(),
+      ).rejects.toThrow(
+        'Table "Profile" not found in migration history for model "Profile"',
+      );
+    });
+  });
 });
 
 describe('ColumnReorderGenerator', () => {
@@ -304,30 +498,26 @@ describe('ColumnReorderGenerator', () => {
       // Mock database connector methods
       jest.spyOn(DatabaseConnector.prototype, 'connect').mockResolvedValue();
       jest.spyOn(DatabaseConnector.prototype, 'disconnect').mockResolvedValue();
-      jest
-        .spyOn(DatabaseConnector.prototype, 'tableExists')
-        .mockResolvedValue(true);
       jest
         .spyOn(DatabaseConnector.prototype, 'getTablesMetadata')
-        .mockResolvedValue([]);
-      jest
-        .spyOn(DatabaseConnector.prototype, 'getTableMetadata')
-        .mockResolvedValue({
-          name: 'User',
-          columns: [
-            {
-              name: 'id',
-              type: 'int(11) NOT NULL AUTO_INCREMENT',
-              nullable: false,
-              defaultValue: null,
-              isAutoIncrement: true,
-              isPrimaryKey: true,
-              isUnique: true,
-              extra: 'auto_increment',
-              position: 1,
-            },
-          ],
-        });
+        .mockImplementation(async (tableNames?: string[]) =>
+          (tableNames || []).map((name) => ({
+            name,
+            columns: [
+              {
+                name: 'id',
+                type: 'int(11) NOT NULL AUTO_INCREMENT',
+                nullable: false,
+                defaultValue: null,
+                isAutoIncrement: true,
+                isPrimaryKey: true,
+                isUnique: true,
+                extra: 'auto_increment',
+                position: 1,
+              },
+            ],
+          })),
+        );
 
       const result = await generator.generateReorderSQL();
       expect(result).toBeDefined();
@@ -340,30 +530,26 @@ describe('ColumnReorderGenerator', () => {
 
       jest.spyOn(DatabaseConnector.prototype, 'connect').mockResolvedValue();
       jest.spyOn(DatabaseConnector.prototype, 'disconnect').mockResolvedValue();
-      jest
-        .spyOn(DatabaseConnector.prototype, 'tableExists')
-        .mockResolvedValue(true);
       jest
         .spyOn(DatabaseConnector.prototype, 'getTablesMetadata')
-        .mockResolvedValue([]);
-      jest
-        .spyOn(DatabaseConnector.prototype, 'getTableMetadata')
-        .mockResolvedValue({
-          name: 'User',
-          columns: [
-            {
-              name: 'id',
-              type: 'int(11) NOT NULL AUTO_INCREMENT',
-              nullable: false,
-              defaultValue: null,
-              isAutoIncrement: true,
-              isPrimaryKey: true,
-              isUnique: true,
-              extra: 'auto_increment',
-              position: 1,
-            },
-          ],
-        });
+        .mockImplementation(async (tableNames?: string[]) =>
+          (tableNames || []).map((name) => ({
+            name,
+            columns: [
+              {
+                name: 'id',
+                type: 'int(11) NOT NULL AUTO_INCREMENT',
+                nullable: false,
+                defaultValue: null,
+                isAutoIncrement: true,
+                isPrimaryKey: true,
+                isUnique: true,
+                extra: 'auto_increment',
+                position: 1,
+              },
+            ],
+          })),
+        );
 
       await generator.generateReorderSQL(['User']);
       // This test primarily checks that the method doesn't throw when filtering
@@ -459,19 +645,23 @@ describe('DatabaseConnector', () => {
     });
 
     it('should get metadata for multiple tables', async () => {
-      // Clear the mock from beforeEach and create a new one for this test
-      jest.restoreAllMocks();
-
-      jest
-        .spyOn(connector, 'getTableMetadata')
-        .mockResolvedValueOnce({
-          name: 'users',
-          columns: [],
-        })
-        .mockResolvedValueOnce({
-          name: 'posts',
-          columns: [],
-        });
+      await connector.connect();
+      const execute = (connector as any).connection.execute as jest.Mock;
+      execute
+        .mockResolvedValueOnce([[{ version: '8.0.36' }]])
+        .mockResolvedValueOnce([
+          ['users', 'posts'].map((tableName) => ({
+            tableName,
+            columnName: 'id',
+            dataType: 'int',
+            columnType: 'int(11)',
+            isNullable: 'NO',
+            columnDefault: null,
+            extra: 'auto_increment',
+            columnKey: 'PRI',
+            ordinalPosition: 1,
+          })),
+        ]);
 
       const metadata = await connector.getTablesMetadata(['users', 'posts']);
       expect(metadata).toHaveLength(2);
@@ -0,0 +1,184 @@
+/**
+ * INFORMATION_SCHEMA.COLUMNS rows captured from real servers for the same
+ * Prisma-created table, in the shape returned by DatabaseConnector's query.
+ *
+ * model User {
+ *   id        Int      @id @default(autoincrement())
+ *   email     String   @unique
+ *   name      String?
+ *   role      Role     @default(USER)
+ *   nickname  String   @default("it's me")
+ *   score     Float    @default(0)
+ *   createdAt DateTime @default(now())
+ *   updatedAt DateTime @updatedAt
+ * }
+ */
+export const COLUMN_METADATA_FIXTURES = {
+  // MariaDB 10.11: defaults are SQL expressions, NULL is the literal 'NULL'
+  mariadb: [
+    {
+      columnName: 'id',
+      dataType: 'int',
+      columnType: 'int(11)',
+      isNullable: 'NO',
+      columnDefault: null,
+      extra: 'auto_increment',
+      columnKey: 'PRI',
+      ordinalPosition: 1,
+    },
+    {
+      columnName: 'email',
+      dataType: 'varchar',
+      columnType: 'varchar(191)',
+      isNullable: 'NO',
+      columnDefault: null,
+      extra: '',
+      columnKey: 'UNI',
+      ordinalPosition: 2,
+    },
+    {
+      columnName: 'name',
+      dataType: 'varchar',
+      columnType: 'varchar(191)',
+      isNullable: 'YES',
+      columnDefault: 'NULL',
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 3,
+    },
+    {
+      columnName: 'role',
+      dataType: 'enum',
+      columnType: "enum('USER','ADMIN')",
+      isNullable: 'NO',
+      columnDefault: "'USER'",
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 4,
+    },
+    {
+      columnName: 'nickname',
+      dataType: 'varchar',
+      columnType: 'varchar(191)',
+      isNullable: 'NO',
+      columnDefault: "'it''s me'",
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 5,
+    },
+    {
+      columnName: 'score',
+      dataType: 'double',
+      columnType: 'double',
+      isNullable: 'NO',
+      columnDefault: '0',
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 6,
+    },
+    {
+      columnName: 'createdAt',
+      dataType: 'datetime',
+      columnType: 'datetime(3)',
+      isNullable: 'NO',
+      columnDefault: 'current_timestamp(3)',
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 7,
+    },
+    {
+      columnName: 'updatedAt',
+      dataType: 'datetime',
+      columnType: 'datetime(3)',
+      isNullable: 'NO',
+      columnDefault: null,
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 8,
+    },
+  ],
+
+  // MySQL 8.0: defaults are raw values, functions are flagged DEFAULT_GENERATED
+  mysql: [
+    {
+      columnName: 'id',
+      dataType: 'int',
+      columnType: 'int',
+      isNullable: 'NO',
+      columnDefault: null,
+      extra: 'auto_increment',
+      columnKey: 'PRI',
+      ordinalPosition: 1,
+    },
+    {
+      columnName: 'email',
+      dataType: 'varchar',
+      columnType: 'varchar(191)',
+      isNullable: 'NO',
+      columnDefault: null,
+      extra: '',
+      columnKey: 'UNI',
+      ordinalPosition: 2,
+    },
+    {
+      columnName: 'name',
+      dataType: 'varchar',
+      columnType: 'varchar(191)',
+      isNullable: 'YES',
+      columnDefault: null,
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 3,
+    },
+    {
+      columnName: 'role',
+      dataType: 'enum',
+      columnType: "enum('USER','ADMIN')",
+      isNullable: 'NO',
+      columnDefault: 'USER',
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 4,
+    },
+    {
+      columnName: 'nickname',
+      dataType: 'varchar',
+      columnType: 'varchar(191)',
+      isNullable: 'NO',
+      columnDefault: "it's me",
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 5,
+    },
+    {
+      columnName: 'score',
+      dataType: 'double',
+      columnType: 'double',
+      isNullable: 'NO',
+      columnDefault: '0',
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 6,
+    },
+    {
+      columnName: 'createdAt',
+      dataType: 'datetime',
+      columnType: 'datetime(3)',
+      isNullable: 'NO',
+      columnDefault: 'CURRENT_TIMESTAMP(3)',
+      extra: 'DEFAULT_GENERATED',
+      columnKey: '',
+      ordinalPosition: 7,
+    },
+    {
+      columnName: 'updatedAt',
+      dataType: 'datetime',
+      columnType: 'datetime(3)',
+      isNullable: 'NO',
+      columnDefault: null,
+      extra: '',
+      columnKey: '',
+      ordinalPosition: 8,
+    },
+  ],
+};
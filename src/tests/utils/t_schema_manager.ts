@@ -1,5 +1,5 @@
 import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import { dirname, join } from 'path';
 import { tmpdir } from 'os';
 
 /**
@@ -203,6 +203,25 @@ export class TSchemaManager {
     return filePath;
   }
 
+  /**
+   * Create a schema folder holding one .prisma file per entry.
+   */
+  createSchemaFolder(
+    files: { [fileName: string]: string },
+    dirName = 'schema',
+  ): string {
+    const dirPath = join(this.tempDir, dirName);
+
+    for (const [fileName, content] of Object.entries(files)) {
+      const filePath = join(dirPath, fileName);
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, content, 'utf-8');
+      this.createdFiles.push(filePath);
+    }
+
+    return dirPath;
+  }
+
   /**
    * Create multiple schema files for testing different providers.
    */
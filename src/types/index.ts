@@ -8,26 +8,53 @@
 export const SUPPORTED_PROVIDERS = ['mysql', 'mariadb'] as const;
 export type SupportedProvider = (typeof SUPPORTED_PROVIDERS)[number];
 
+/**
+ * How a Prisma field is stored: scalar, enum and Unsupported("...") fields are
+ * database columns, relation and composite-type fields are not
+ */
+export const COLUMN_FIELD_KINDS = ['scalar', 'enum', 'unsupported'] as const;
+export type PrismaFieldKind =
+  | (typeof COLUMN_FIELD_KINDS)[number]
+  | 'relation'
+  | 'composite';
+
 /**
  * Represents a field in a Prisma model
  */
 export interface PrismaField {
   name: string;
+  /** Database column name, from @map or the field name */
+  columnName: string;
   type: string;
+  kind: PrismaFieldKind;
   isOptional: boolean;
   isId: boolean;
   isUnique: boolean;
   hasDefault: boolean;
   isRelation: boolean;
+  /** Marked with @ignore */
+  isIgnored: boolean;
   attributes: string[];
 }
 
 /**
- * Represents a Prisma model with its fields
+ * Represents a Prisma model (or view block) with its fields
  */
 export interface PrismaModel {
   name: string;
+  /** Database table name, from @@map or the model name */
+  tableName: string;
   fields: PrismaField[];
+  /** Names of the block attributes, e.g. `map`, `index`, `schema` */
+  blockAttributes: string[];
+  /** Marked with @@ignore */
+  isIgnored: boolean;
+  /** Declared with a `view` block rather than `model` */
+  isView: boolean;
+  /** Database schema from @@schema (multiSchema), when set */
+  schema?: string;
+  /** Path of the .prisma file the model is declared in */
+  sourceFile?: string;
 }
 
 /**
@@ -45,10 +72,86 @@ export interface SchemaAnalysis {
  */
 export interface ReorderResult {
   model: string;
+  /** Database table name, from @@map or the model name */
+  table: string;
+  /** Database schema from @@schema (multiSchema), when set */
+  schema?: string;
   changes: ColumnChange[];
   sql: string[];
 }
 
+/**
+ * Options for generating column reorder SQL
+ */
+export interface ReorderOptions {
+  perColumnStatements?: boolean;
+  /** Also reorder @@ignore models and @ignore fields */
+  includeIgnored?: boolean;
+  /** Replay the migration history instead of connecting to the database */
+  offline?: boolean;
+  /** Migrations directory replayed in offline mode */
+  migrationsDir?: string;
+}
+
+/**
+ * Options for fixing migration files
+ */
+export interface MigrationFixerOptions {
+  /** Also position columns of @@ignore models and @ignore fields */
+  includeIgnored?: boolean;
+  /**
+   * Version of the server the migrations run on, e.g. `8.0.36` or
+   * `10.11.6-MariaDB`. Decides whether fixed ADD COLUMN statements get
+   * ALGORITHM=INSTANT; without it no algorithm is added.
+   */
+  serverVersion?: string;
+  /**
+   * Look the server version up when none is given. Called once, the first
+   * time a fix positions a column of an existing table; resolves to
+   * undefined when the version cannot be found out.
+   */
+  detectServerVersion?: () => Promise<string | undefined>;
+}
+
+/**
+ * Options for auditing the migration history
+ */
+export interface MigrationAuditorOptions {
+  /** Also check columns of @@ignore models and @ignore fields */
+  includeIgnored?: boolean;
+}
+
+/**
+ * The statement that first left a table's columns out of schema order
+ */
+export interface ColumnOrderDrift {
+  model: string;
+  table: string;
+  /** Database schema (multiSchema), when the migration qualified the table */
+  schema?: string;
+  /** Migration directory name */
+  migration: string;
+  file: string;
+  /** 1-based line the statement starts on */
+  line: number;
+  statement: string;
+  /** Column order of the table right after the statement */
+  actualOrder: string[];
+  /** Column order of the model's fields */
+  expectedOrder: string[];
+  /** Whether a later migration put the table back in order */
+  resolved: boolean;
+}
+
+/**
+ * Migration history audit result
+ */
+export interface MigrationAuditResult {
+  migrationsChecked: number;
+  statementsChecked: number;
+  drifts: ColumnOrderDrift[];
+}
+
 /**
  * Represents a column change operation
  */
@@ -67,6 +170,40 @@ export interface MigrationFixResult {
   originalSql: string;
   fixedSql: string;
   changes: string[];
+  /**
+   * Tables the fixed column positions make the target server rebuild
+   * (copy) instead of altering instantly
+   */
+  rebuildTables?: TableReference[];
+}
+
+/**
+ * Fixed SQL of a migration script, see `MigrationFixer.fixMigrationSql`
+ */
+export interface MigrationSqlFix {
+  sql: string;
+  changes: string[];
+  /** Tables the fixed column positions make the target server rebuild */
+  rebuildTables: TableReference[];
+}
+
+/**
+ * A table of a multiSchema schema, or of the connected database when
+ * `schemaName` is not given
+ */
+export interface TableReference {
+  tableName: string;
+  schemaName?: string;
+}
+
+/**
+ * Size of a table as INFORMATION_SCHEMA reports it
+ */
+export interface TableSize extends TableReference {
+  /** Estimated number of rows */
+  rows: number;
+  /** Data and index size in bytes */
+  bytes: number;
 }
 
 /**
@@ -84,12 +221,109 @@ export interface SyncOptions {
   model?: string[];
   schema?: string;
   verbose?: boolean;
+  perColumn?: boolean;
+  includeIgnored?: boolean;
+  json?: boolean;
+  offline?: boolean;
+  migrationsDir?: string;
 }
 
 export interface FixMigrationOptions {
+  schema?: string;
   migrationsDir?: string;
   verbose?: boolean;
   apply?: boolean;
+  includeIgnored?: boolean;
+  json?: boolean;
+  /** Fix the migration with this name instead of the latest one */
+  migration?: string;
+  /** Fix the migration with this name and every later one */
+  since?: string;
+  /** Fix every migration the database has not applied yet */
+  pending?: boolean;
+  /** File listing applied migration names, read instead of the database */
+  appliedList?: string;
+  /** Allow fixing applied migrations and update their checksum in _prisma_migrations */
+  updateChecksum?: boolean;
+  /** Let --apply treat every migration as unapplied when the database cannot be read */
+  assumeUnapplied?: boolean;
+  /** Target server version, read from the database when not given */
+  serverVersion?: string;
+  /** Fix this SQL file instead of a migration, `-` for stdin to stdout */
+  file?: string;
+  /** Restore the selected migrations from the backups --apply saved */
+  undo?: boolean;
+}
+
+export interface AuditMigrationsOptions {
+  schema?: string;
+  migrationsDir?: string;
+  verbose?: boolean;
+  includeIgnored?: boolean;
+  json?: boolean;
+}
+
+export interface CheckOptions {
+  model?: string[];
+  schema?: string;
+  migrationsDir?: string;
+  verbose?: boolean;
+  includeIgnored?: boolean;
+}
+
+/**
+ * Version of the `--json` output documents, bumped on breaking changes to
+ * their shape
+ */
+export const JSON_OUTPUT_VERSION = 1;
+
+/**
+ * `sync --json` output document
+ */
+export interface SyncJsonOutput {
+  version: typeof JSON_OUTPUT_VERSION;
+  command: 'sync';
+  success: boolean;
+  results: ReorderResult[];
+  /** The created migration, null when nothing had to be reordered */
+  migration: { name: string; file: string } | null;
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * `fix-migration --json` output document
+ */
+export interface FixMigrationJsonOutput {
+  version: typeof JSON_OUTPUT_VERSION;
+  command: 'fix-migration';
+  success: boolean;
+  /** The checked migration file, null unless exactly one was checked */
+  migrationFile: string | null;
+  /** The fixes, null when the migration does not need any */
+  result: MigrationFixResult | null;
+  /** Every checked migration file, oldest first */
+  migrationFiles: string[];
+  /** The fixes of every checked migration that needs any */
+  results: MigrationFixResult[];
+  /** Whether the fixes were written to the migration files (--apply) */
+  applied: boolean;
+  /** Migration files restored from their backups (--undo) */
+  restoredFiles: string[];
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * `audit-migrations --json` output document
+ */
+export interface AuditMigrationsJsonOutput {
+  version: typeof JSON_OUTPUT_VERSION;
+  command: 'audit-migrations';
+  success: boolean;
+  result: MigrationAuditResult | null;
+  warnings: string[];
+  errors: string[];
 }
 
 /**
@@ -105,6 +339,9 @@ export interface ColumnMetadata {
   isUnique: boolean;
   extra: string;
   position: number;
+  generationExpression?: string | null;
+  generationType?: 'VIRTUAL' | 'STORED' | null;
+  isInvisible?: boolean;
 }
 
 /**
@@ -115,6 +352,43 @@ export interface TableMetadata {
   columns: ColumnMetadata[];
 }
 
+/**
+ * A statement replayed from the migration history, with the tables it
+ * created or altered as they are after the statement
+ */
+export interface MigrationReplayStep {
+  /** Migration directory name, e.g. `20240101000000_init` */
+  migration: string;
+  file: string;
+  /** 1-based line the statement starts on */
+  line: number;
+  statement: string;
+  tables: Array<TableMetadata & { schema?: string }>;
+}
+
+/**
+ * Where table metadata is read from: the live database, or the migration
+ * history when working offline
+ */
+export interface TableMetadataSource {
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  /** Tables that do not exist are left out of the result */
+  getTablesMetadata(
+    tableNames?: string[],
+    schemaName?: string,
+  ): Promise<TableMetadata[]>;
+  /**
+   * Full column definitions keyed by column name. `columnNames` are the
+   * columns about to be redefined, when only some of them are.
+   */
+  getColumnDefinitions(
+    tableName: string,
+    schemaName?: string,
+    columnNames?: string[],
+  ): Promise<Map<string, string>>;
+}
+
 /**
  * Database connection configuration
  */
@@ -124,4 +398,6 @@ export interface DatabaseConfig {
   user: string;
   password: string;
   database: string;
+  /** Milliseconds to wait for the connection to open */
+  connectTimeout: number;
 }